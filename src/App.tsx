@@ -1,46 +1,224 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
-import type { TreeNode, OperationType, AnimationStep, HighlightType } from './types';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import type {
+  TreeNode,
+  BTreeNode,
+  TreeKind,
+  OperationType,
+  AnimationStep,
+  HighlightType,
+  HighlightEdge,
+  NodeId,
+  AuxState,
+  TraversalStyle,
+  CallFrame,
+  DuplicatePolicy,
+} from './types';
 import {
-  insertNode,
-  removeNode,
   searchNode,
-  createRandomTree,
   createDefaultTree,
-  inorderTraversal,
-  preorderTraversal,
-  postorderTraversal,
+  countNodes,
+  treeHeight,
+  DUPLICATE_LABELS,
+  createNode,
+  findNodeById,
+  sameTree,
+  levelorderTraversal,
   findPredecessor,
   findSuccessor,
+  findFloor,
+  findCeiling,
+  findNearest,
   selectKth,
+  rankOf,
+  rangeSearch,
+  rangeCount,
+  lowestCommonAncestor,
+  distanceBetween,
 } from './core/bst';
-import { useCanvas, createPlayback } from './canvas/useCanvas';
+import { traversalSteps, resolveStyle, isDepthFirstOp } from './core/traversals';
+import {
+  getVariant,
+  getKindNames,
+  buildTree,
+  convertTree,
+  hasDuplicateKeys,
+  preorderValues,
+  rebuildWithPolicy,
+  createRandomTreeOfKind,
+} from './core/variants';
+import {
+  DEFAULT_BTREE_ORDER,
+  BTREE_OPERATIONS,
+  searchBTree,
+  insertBTree,
+  removeBTree,
+  buildBTree,
+  bTreeKeys,
+  countKeys,
+  bTreeHeight,
+  createRandomBTree,
+} from './core/btree';
+import type { History, HistoryEntry } from './core/history';
+import { createHistory, pushHistory, jumpTo, currentEntry, canUndo, canRedo, describeEntry } from './core/history';
+import type { SharedState, DecodeResult } from './core/share';
+import { encodeShareHash, decodeShareHash, isReplayable } from './core/share';
+import type { ChildSide, EditResult } from './core/editor';
+import { ORDERED_OPS, findViolations, reattachSubtree, setKey, addChild, deleteSubtree } from './core/editor';
+import { useCanvas, createPlayback, BASE_STEP_DELAY } from './canvas/useCanvas';
 import Header from './components/Header';
 import Sidebar from './components/Sidebar';
 import ControlBar from './components/ControlBar';
 import InputModal from './components/InputModal';
 import AlgorithmPanel from './components/AlgorithmPanel';
+import HistoryPanel from './components/HistoryPanel';
+import ImportExportModal from './components/ImportExportModal';
+import CanvasToolbar from './components/CanvasToolbar';
+import AuxStrip from './components/AuxStrip';
+import NodeMenu from './components/NodeMenu';
+import type { NodeMenuItem } from './components/NodeMenu';
+import type { Frame } from './canvas/exportImage';
+import { renderFramePNG, renderFrameSVG, downloadBlob } from './canvas/exportImage';
+import type { AnimationSource, ProgressCallback } from './canvas/exportAnimation';
+import { exportGIF, exportWebM, webmSupported } from './canvas/exportAnimation';
 import './App.css';
 
 // Operations that require a numeric input
 const INPUT_OPS: OperationType[] = [
   'create',
+  'buildBalanced',
   'search',
   'insert',
   'remove',
   'predecessor',
   'successor',
+  'floor',
+  'ceiling',
+  'nearest',
   'selectKth',
+  'rank',
 ];
 
+// Operations that take two numbers, with the name of each
+const TWO_INPUT_OPS: Partial<Record<OperationType, [string, string]>> = {
+  rangeSearch: ['lo', 'hi'],
+  rangeCount: ['lo', 'hi'],
+  lca: ['a', 'b'],
+  distance: ['a', 'b'],
+};
+
+// Operations that only variants without per-node balance data offer
+const SHAPE_OPS = ['rebalance', 'buildBalanced'] as const;
+
+/** Title and inputs of the modal asking for an operation's arguments */
+function modalProps(op: OperationType, kind: TreeKind): { title: string; placeholder: string; fields?: string[]; list?: boolean } {
+  const names = TWO_INPUT_OPS[op];
+  if (names) return { title: `${op}(${names.join(', ')})`, placeholder: '', fields: names.map((name) => `Enter ${name}…`) };
+  switch (op) {
+    case 'create':
+      return { title: `Create Random ${getKindNames(kind).label}`, placeholder: 'Number of nodes…' };
+    case 'buildBalanced':
+      return { title: 'Build a balanced tree from keys', placeholder: 'e.g. 5, 3, 8, 1, 4, 9', list: true };
+    case 'selectKth':
+      return { title: 'Select k-th smallest', placeholder: 'Enter k…' };
+    default:
+      return { title: `${op}(v)`, placeholder: 'Enter value…' };
+  }
+}
+
+// Operations offered when a node is clicked on the canvas
+const NODE_MENU_OPS: { label: string; op: OperationType }[] = [
+  { label: 'Search', op: 'search' },
+  { label: 'Remove', op: 'remove' },
+  { label: 'Predecessor', op: 'predecessor' },
+  { label: 'Successor', op: 'successor' },
+  { label: 'Rank of this node', op: 'rank' },
+];
+
+const NO_VIOLATIONS = new Set<NodeId>();
+const INVALID_REASON = 'The tree is not a valid BST — fix the red nodes first';
+
+/** Arguments and display options of an operation being animated */
+interface AnimationOptions {
+  value?: number;
+  /** Second argument of two-argument operations (e.g. the top of a range) */
+  value2?: number;
+  finalBTree?: BTreeNode | null;
+  style?: TraversalStyle;
+}
+
+type ActiveOperation = {
+  op: OperationType;
+  value?: number;
+  value2?: number;
+  kind?: TreeKind;
+  duplicates?: DuplicatePolicy;
+};
+
+/** Edit-mode actions that ask for a key */
+type EditPrompt = { action: 'key' | ChildSide; id: NodeId; value: number } | { action: 'root' };
+
+function editPromptTitle(prompt: EditPrompt): string {
+  switch (prompt.action) {
+    case 'root':
+      return 'Root key';
+    case 'key':
+      return `New key for ${prompt.value}`;
+    default:
+      return `${prompt.action === 'left' ? 'Left' : 'Right'} child of ${prompt.value}`;
+  }
+}
+
+function describeValidity(violations: Set<NodeId>): string {
+  if (violations.size === 0) return 'The tree is a valid BST.';
+  const n = violations.size;
+  return `Not a valid BST: ${n} node${n === 1 ? '' : 's'} out of order (marked red).`;
+}
+
+/** Names of variables whose value differs from the previous step's */
+function changedVariables(prev: Map<string, number | null> | undefined, next: Map<string, number | null>): string[] {
+  if (!prev) return [];
+  return [...next].filter(([name, value]) => prev.has(name) && prev.get(name) !== value).map(([name]) => name);
+}
+
+/** The tree (and operation) from a shared link in the URL hash, if any */
+function readSharedLink(): DecodeResult | null {
+  return window.location.hash.length > 1 ? decodeShareHash(window.location.hash) : null;
+}
+
+function initialDescription(link: DecodeResult | null): string {
+  if (!link) return 'Default BST loaded (N=21, h=7). Pick an operation.';
+  if (!link.ok) return `Shared link could not be opened (${link.error}). Default BST loaded instead.`;
+  return `Opened a shared ${getKindNames(link.state.kind).label}. Pick an operation.`;
+}
+
 function App() {
-  // ── Tree state (initialise with a default tree of height 7) ──────────────
-  const [tree, setTree] = useState<TreeNode | null>(() => createDefaultTree());
+  // ── Shared link (parsed once on startup) ─────────────────────────────────
+  const [link] = useState(readSharedLink);
+  const linked = link?.ok ? link.state : null;
+
+  // ── Tree state (a shared tree, or a default tree of height 7) ────────────
+  const [tree, setTree] = useState<TreeNode | null>(() => (linked ? linked.tree : createDefaultTree()));
+  const [treeKind, setTreeKind] = useState<TreeKind>(linked?.kind ?? 'bst');
+  // B-trees use their own node model; `bTree` is only meaningful in B-tree mode
+  const [bTree, setBTree] = useState<BTreeNode | null>(linked?.bTree ?? null);
+  const [bTreeOrder, setBTreeOrder] = useState(linked?.bTreeOrder ?? DEFAULT_BTREE_ORDER);
+  // How a plain BST treats a key it already holds
+  const [duplicates, setDuplicates] = useState<DuplicatePolicy>(linked?.duplicates ?? 'reject');
+
+  // ── Undo/redo history of committed trees ─────────────────────────────────
+  const [history, setHistory] = useState<History>(() =>
+    createHistory({ action: linked ? 'shared' : 'initial', kind: treeKind, tree, bTree, bTreeOrder, duplicates }),
+  );
 
   // ── Animation / highlight state ──────────────────────────────────────────
-  const [highlightNodes, setHighlightNodes] = useState<Map<number, HighlightType>>(new Map());
-  const [highlightEdges, setHighlightEdges] = useState<Array<[number, number]>>([]);
-  const [activeNodeValue, setActiveNodeValue] = useState<number | undefined>(undefined);
-  const [description, setDescription] = useState('Default BST loaded (N=21, h=7). Pick an operation.');
+  const [highlightNodes, setHighlightNodes] = useState<Map<NodeId, HighlightType>>(new Map());
+  const [highlightEdges, setHighlightEdges] = useState<HighlightEdge[]>([]);
+  const [activeNodeId, setActiveNodeId] = useState<NodeId | undefined>(undefined);
+  const [aux, setAux] = useState<AuxState | undefined>(undefined);
+  const [threads, setThreads] = useState<Array<[NodeId, NodeId]>>([]);
+  const [callStack, setCallStack] = useState<CallFrame[] | undefined>(undefined);
+  const [watch, setWatch] = useState<{ variables: Map<string, number | null>; changed: string[] } | undefined>(undefined);
+  const [description, setDescription] = useState(() => initialDescription(link));
 
   // ── Playback state ───────────────────────────────────────────────────────
   const [isPlaying, setIsPlaying] = useState(false);
@@ -48,19 +226,69 @@ function App() {
   const [currentStep, setCurrentStep] = useState(0);
   const [totalSteps, setTotalSteps] = useState(0);
   const [animating, setAnimating] = useState(false);
+  // Index of the step on screen, for the shared link
+  const [shownStep, setShownStep] = useState(0);
 
   const playbackRef = useRef<ReturnType<typeof createPlayback> | null>(null);
+  // Steps of the operation on screen, for GIF / WebM export
+  const animationRef = useRef<AnimationSource | null>(null);
+  const [exportProgress, setExportProgress] = useState<string | null>(null);
 
   // ── Algorithm panel state ────────────────────────────────────────────────
-  const [activeOperation, setActiveOperation] = useState<{ op: OperationType; value?: number } | null>(null);
+  const [activeOperation, setActiveOperation] = useState<ActiveOperation | null>(null);
   const [activeLine, setActiveLine] = useState<number | undefined>(undefined);
   const [stepLog, setStepLog] = useState<Array<{ index: number; description: string }>>([]);
+  // Recursive, iterative or Morris for depth-first traversals
+  const [traversalStyle, setTraversalStyle] = useState<TraversalStyle>(linked?.style ?? 'recursive');
+  // The operation being shown and the tree it started from, when it can be
+  // replayed from a link
+  const [replay, setReplay] = useState<SharedState | null>(null);
 
   // ── Modal state ──────────────────────────────────────────────────────────
   const [modalOp, setModalOp] = useState<OperationType | null>(null);
+  const [showImportExport, setShowImportExport] = useState(false);
 
-  // ── Canvas hook ──────────────────────────────────────────────────────────
-  const { canvasRef } = useCanvas({ tree, highlightNodes, highlightEdges, activeNode: activeNodeValue });
+  // ── Edit mode ────────────────────────────────────────────────────────────
+  const [editMode, setEditMode] = useState(false);
+  const [editPrompt, setEditPrompt] = useState<EditPrompt | null>(null);
+
+  // Checked on every change; ordered algorithms are blocked while invalid
+  const violations = useMemo(
+    () => (treeKind === 'btree' ? NO_VIOLATIONS : findViolations(tree, duplicates)),
+    [tree, treeKind, duplicates],
+  );
+  const invalid = violations.size > 0;
+
+  // Sidebar operations greyed out for the current tree, with the reason
+  const unsupported: OperationType[] = treeKind === 'btree' ? [] : SHAPE_OPS.filter((op) => !getVariant(treeKind)[op]);
+  const blockedOps = invalid
+    ? { ops: ORDERED_OPS, reason: INVALID_REASON }
+    : unsupported.length > 0
+      ? { ops: unsupported, reason: `A ${getKindNames(treeKind).label} keeps balance data in its nodes that this would not maintain` }
+      : undefined;
+
+  // ── Node picked on the canvas (drives the context menu) ─────────────────
+  const [selection, setSelection] = useState<{ id: NodeId; value: number; x: number; y: number } | null>(null);
+
+  const handleNodeClick = useCallback(
+    (id: NodeId | null, at: { x: number; y: number }) => {
+      // An empty tree gets its root from a click in edit mode
+      if (editMode && id === null && !tree) {
+        setEditPrompt({ action: 'root' });
+        return;
+      }
+      // A B-tree cell is identified by its key
+      const value = treeKind === 'btree' ? id : id !== null ? findNodeById(tree, id)?.value : null;
+      setSelection(id === null || value == null ? null : { id, value, ...at });
+    },
+    [editMode, tree, treeKind],
+  );
+
+  // The selected node is marked unless an animation is highlighting it
+  const shownHighlights = useMemo(() => {
+    if (!selection || highlightNodes.has(selection.id)) return highlightNodes;
+    return new Map(highlightNodes).set(selection.id, 'selected');
+  }, [highlightNodes, selection]);
 
   // ── Cleanup playback on unmount ──────────────────────────────────────────
   useEffect(() => {
@@ -69,23 +297,34 @@ function App() {
 
   // ── Run animation steps ──────────────────────────────────────────────────
   const runAnimation = useCallback(
-    (steps: AnimationStep[], finalTree: TreeNode | null, op: OperationType, opValue?: number) => {
-      // Stop any previous playback and clear previous highlights
+    (steps: AnimationStep[], finalTree: TreeNode | null, op: OperationType, options: AnimationOptions = {}) => {
+      const { value, value2, finalBTree, style } = options;
+      // Stop any previous playback and clear previous highlights and selection
       playbackRef.current?.destroy();
+      setSelection(null);
       setHighlightNodes(new Map());
       setHighlightEdges([]);
-      setActiveNodeValue(undefined);
+      setActiveNodeId(undefined);
+      setAux(undefined);
+      setThreads([]);
+      setCallStack(undefined);
+      setWatch(undefined);
 
       // Set the active operation for the algorithm panel
-      setActiveOperation({ op, value: opValue });
+      setActiveOperation({ op, value, value2, kind: treeKind, duplicates });
       setStepLog([]);
       setActiveLine(undefined);
 
       if (steps.length === 0) {
         setTree(finalTree);
+        if (finalBTree !== undefined) setBTree(finalBTree);
+        setReplay(null);
         return;
       }
 
+      setReplay(isReplayable(treeKind, op) ? { kind: treeKind, tree, bTree, bTreeOrder, duplicates, op, value, value2, style } : null);
+
+      animationRef.current = { steps, finalTree, finalBTree };
       setAnimating(true);
       setTotalSteps(steps.length);
       setCurrentStep(0);
@@ -94,14 +333,25 @@ function App() {
       const logAccumulator: Array<{ index: number; description: string }> = [];
 
       const pb = createPlayback(steps, {
-        onStep: (step) => {
+        onStep: (step, index) => {
           setHighlightNodes(step.highlightNodes);
           setHighlightEdges(step.highlightEdges);
-          setActiveNodeValue(step.activeNode);
+          setActiveNodeId(step.activeNode);
+          setAux(step.aux);
+          setThreads(step.threads ?? []);
+          setCallStack(step.callStack);
+          setWatch(
+            step.variables && {
+              variables: step.variables,
+              changed: changedVariables(steps[index - 1]?.variables, step.variables),
+            },
+          );
           setDescription(step.description);
           setActiveLine(step.codeLine);
           if (step.tree) setTree(step.tree);
+          if (step.bTree !== undefined) setBTree(step.bTree);
           setCurrentStep(pb.getIndex());
+          setShownStep(index);
 
           // Append to step log
           const idx = pb.getIndex() - 1;
@@ -112,8 +362,9 @@ function App() {
           setIsPlaying(false);
           setAnimating(false);
           setTree(finalTree);
+          if (finalBTree !== undefined) setBTree(finalBTree);
           // Keep highlights visible — they are cleared when the next operation starts
-          setActiveNodeValue(undefined); // hide arrow when done
+          setActiveNodeId(undefined); // hide arrow when done
           setCurrentStep(pb.getTotal());
           setActiveLine(undefined);
         },
@@ -123,79 +374,540 @@ function App() {
       playbackRef.current = pb;
       pb.play();
     },
-    [speed],
+    [speed, tree, bTree, treeKind, bTreeOrder, duplicates],
   );
 
-  // ── Handle operations ────────────────────────────────────────────────────
-  const handleOperation = useCallback(
-    (op: OperationType) => {
-      // Some operations need a numeric input → show modal
-      if (INPUT_OPS.includes(op)) {
-        setModalOp(op);
+  // ── Reset playback and highlights (before swapping in a new tree) ───────
+  const resetPlayback = useCallback(() => {
+    playbackRef.current?.destroy();
+    animationRef.current = null;
+    setHighlightNodes(new Map());
+    setHighlightEdges([]);
+    setActiveNodeId(undefined);
+    setAux(undefined);
+    setThreads([]);
+    setCallStack(undefined);
+    setWatch(undefined);
+    setActiveOperation(null);
+    setStepLog([]);
+    setActiveLine(undefined);
+    setReplay(null);
+    setTotalSteps(0);
+    setCurrentStep(0);
+    setIsPlaying(false);
+    setAnimating(false);
+  }, []);
+
+  // ── History ──────────────────────────────────────────────────────────────
+  const recordHistory = useCallback((entry: HistoryEntry) => {
+    setHistory((h) => pushHistory(h, entry));
+  }, []);
+
+  const restoreEntry = useCallback(
+    (entry: HistoryEntry, message: string) => {
+      resetPlayback();
+      setSelection(null);
+      setTreeKind(entry.kind);
+      setTree(entry.tree);
+      setBTree(entry.bTree);
+      setBTreeOrder(entry.bTreeOrder);
+      setDuplicates(entry.duplicates);
+      if (entry.kind !== 'bst') setEditMode(false);
+      setDescription(message);
+    },
+    [resetPlayback],
+  );
+
+  const handleJump = useCallback(
+    (index: number) => {
+      const next = jumpTo(history, index);
+      if (next.index === history.index) return;
+      setHistory(next);
+      restoreEntry(currentEntry(next), `Back to: ${describeEntry(currentEntry(next))}`);
+    },
+    [history, restoreEntry],
+  );
+
+  const handleUndo = useCallback(() => {
+    if (!canUndo(history)) return;
+    const next = jumpTo(history, history.index - 1);
+    setHistory(next);
+    restoreEntry(currentEntry(next), `Undo: ${describeEntry(currentEntry(history))}`);
+  }, [history, restoreEntry]);
+
+  const handleRedo = useCallback(() => {
+    if (!canRedo(history)) return;
+    const next = jumpTo(history, history.index + 1);
+    setHistory(next);
+    restoreEntry(currentEntry(next), `Redo: ${describeEntry(currentEntry(next))}`);
+  }, [history, restoreEntry]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); Ctrl+Y also redoes
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || modalOp || showImportExport || editPrompt) return;
+      if (e.target instanceof Element && e.target.closest('input, textarea, select')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [handleUndo, handleRedo, modalOp, showImportExport, editPrompt]);
+
+  // ── Switch tree kind (rebuilds the current keys as the new variant) ──────
+  const handleTreeKindChange = useCallback(
+    (kind: TreeKind) => {
+      if (treeKind === 'bst' && kind !== 'bst' && hasDuplicateKeys(tree)) {
+        setDescription(
+          `${getKindNames(kind).label}s cannot keep duplicate keys. Set the duplicate policy to "reject" first to drop the extra copies.`,
+        );
         return;
       }
+      resetPlayback();
+      const keys = treeKind === 'btree' ? bTreeKeys(bTree) : preorderValues(tree);
 
-      switch (op) {
-        case 'inorder':
-          runAnimation(inorderTraversal(tree), tree, 'inorder');
-          break;
-        case 'preorder':
-          runAnimation(preorderTraversal(tree), tree, 'preorder');
-          break;
-        case 'postorder':
-          runAnimation(postorderTraversal(tree), tree, 'postorder');
-          break;
+      let height: number;
+      if (kind === 'btree') {
+        const rebuilt = buildBTree(keys, bTreeOrder);
+        setBTree(rebuilt);
+        recordHistory({ action: 'convert', kind, tree, bTree: rebuilt, bTreeOrder, duplicates });
+        height = bTreeHeight(rebuilt);
+      } else {
+        // Nodes keep their ids across binary kinds, so they glide into the new shape
+        const rebuilt = treeKind === 'btree' ? buildTree(kind, keys) : convertTree(kind, tree);
+        setTree(rebuilt);
+        recordHistory({ action: 'convert', kind, tree: rebuilt, bTree, bTreeOrder, duplicates });
+        height = treeHeight(rebuilt);
       }
+      setTreeKind(kind);
+      setDescription(`Switched to ${getKindNames(kind).label} (h=${height}). Pick an operation.`);
     },
-    [tree, runAnimation],
+    [tree, bTree, treeKind, bTreeOrder, duplicates, resetPlayback, recordHistory],
   );
 
-  // ── Handle modal submit ──────────────────────────────────────────────────
-  const handleModalSubmit = useCallback(
-    (value: number) => {
-      setModalOp(null);
+  // ── Change B-tree order (rebuilds the current keys) ──────────────────────
+  const handleBTreeOrderChange = useCallback(
+    (order: number) => {
+      resetPlayback();
+      const rebuilt = buildBTree(bTreeKeys(bTree), order);
+      setBTreeOrder(order);
+      setBTree(rebuilt);
+      recordHistory({ action: 'convert', kind: 'btree', tree, bTree: rebuilt, bTreeOrder: order, duplicates });
+      setDescription(`Rebuilt as a B-tree of order ${order} (h=${bTreeHeight(rebuilt)}).`);
+    },
+    [tree, bTree, duplicates, resetPlayback, recordHistory],
+  );
 
-      switch (modalOp) {
+  // ── Change the duplicate policy (rebuilds the current plain BST) ─────────
+  const handleDuplicatesChange = useCallback(
+    (policy: DuplicatePolicy) => {
+      resetPlayback();
+      const rebuilt = rebuildWithPolicy(tree, policy);
+      setDuplicates(policy);
+      setTree(rebuilt);
+      recordHistory({ action: 'duplicates', kind: 'bst', tree: rebuilt, bTree, bTreeOrder, duplicates: policy });
+      setDescription(`Duplicate keys: ${DUPLICATE_LABELS[policy]}. Tree rebuilt (N=${countNodes(rebuilt)}).`);
+    },
+    [tree, bTree, bTreeOrder, resetPlayback, recordHistory],
+  );
+
+  // ── Run an operation against the current tree ───────────────────────────
+  const runOperation = useCallback(
+    (op: OperationType, value = 0, value2 = 0, style = traversalStyle) => {
+      if (invalid && ORDERED_OPS.includes(op)) {
+        setDescription(`${op} needs a valid BST. ${describeValidity(violations)}`);
+        return;
+      }
+      if (treeKind === 'btree') {
+        switch (op) {
+          case 'create': {
+            const { root, steps } = createRandomBTree(value, bTreeOrder);
+            runAnimation(steps, tree, 'create', { value, finalBTree: root });
+            recordHistory({ action: 'create', value, kind: 'btree', tree, bTree: root, bTreeOrder, duplicates });
+            break;
+          }
+          case 'search': {
+            const { steps } = searchBTree(bTree, value);
+            runAnimation(steps, tree, 'search', { value, finalBTree: bTree });
+            break;
+          }
+          case 'insert': {
+            const { root, steps } = insertBTree(bTree, value, bTreeOrder);
+            runAnimation(steps, tree, 'insert', { value, finalBTree: root });
+            if (countKeys(root) !== countKeys(bTree)) recordHistory({ action: 'insert', value, kind: 'btree', tree, bTree: root, bTreeOrder, duplicates });
+            break;
+          }
+          case 'remove': {
+            const { root, steps } = removeBTree(bTree, value, bTreeOrder);
+            runAnimation(steps, tree, 'remove', { value, finalBTree: root });
+            if (countKeys(root) !== countKeys(bTree)) recordHistory({ action: 'remove', value, kind: 'btree', tree, bTree: root, bTreeOrder, duplicates });
+            break;
+          }
+        }
+        return;
+      }
+
+      switch (op) {
         case 'create': {
-          const { root, steps } = createRandomTree(value);
-          runAnimation(steps, root, 'create', value);
+          const { root, steps } = createRandomTreeOfKind(treeKind, value);
+          runAnimation(steps, root, 'create', { value });
+          recordHistory({ action: 'create', value, kind: treeKind, tree: root, bTree, bTreeOrder, duplicates });
           break;
         }
         case 'search': {
-          const { steps } = searchNode(tree, value);
-          runAnimation(steps, tree, 'search', value);
+          // Splay trees restructure on access; everything else searches read-only
+          const { search } = getVariant(treeKind);
+          if (search) {
+            const { root, steps } = search(tree, value);
+            runAnimation(steps, root, 'search', { value });
+            if (!sameTree(root, tree)) recordHistory({ action: 'search', value, kind: treeKind, tree: root, bTree, bTreeOrder, duplicates });
+          } else {
+            const { steps } = searchNode(tree, value);
+            runAnimation(steps, tree, 'search', { value });
+          }
           break;
         }
         case 'insert': {
-          const { root, steps } = insertNode(tree, value);
-          runAnimation(steps, root, 'insert', value);
+          const { root, steps } = getVariant(treeKind).insert(tree, value, duplicates);
+          runAnimation(steps, root, 'insert', { value });
+          // A rejected duplicate leaves nothing to undo
+          if (!sameTree(root, tree)) recordHistory({ action: 'insert', value, kind: treeKind, tree: root, bTree, bTreeOrder, duplicates });
           break;
         }
         case 'remove': {
-          const { root, steps } = removeNode(tree, value);
-          runAnimation(steps, root, 'remove', value);
+          const { root, steps } = getVariant(treeKind).remove(tree, value, duplicates);
+          runAnimation(steps, root, 'remove', { value });
+          if (!sameTree(root, tree)) recordHistory({ action: 'remove', value, kind: treeKind, tree: root, bTree, bTreeOrder, duplicates });
           break;
         }
         case 'predecessor': {
           const { steps } = findPredecessor(tree, value);
-          runAnimation(steps, tree, 'predecessor', value);
+          runAnimation(steps, tree, 'predecessor', { value });
           break;
         }
         case 'successor': {
           const { steps } = findSuccessor(tree, value);
-          runAnimation(steps, tree, 'successor', value);
+          runAnimation(steps, tree, 'successor', { value });
+          break;
+        }
+        case 'floor':
+        case 'ceiling':
+        case 'nearest': {
+          const find = op === 'floor' ? findFloor : op === 'ceiling' ? findCeiling : findNearest;
+          runAnimation(find(tree, value).steps, tree, op, { value });
           break;
         }
         case 'selectKth': {
           const { steps } = selectKth(tree, value);
-          runAnimation(steps, tree, 'selectKth', value);
+          runAnimation(steps, tree, 'selectKth', { value });
+          break;
+        }
+        case 'rank': {
+          const { steps } = rankOf(tree, value);
+          runAnimation(steps, tree, 'rank', { value });
           break;
         }
+        case 'inorder':
+        case 'preorder':
+        case 'postorder': {
+          const used = resolveStyle(op, style);
+          runAnimation(traversalSteps(tree, op, used), tree, op, { style: used });
+          break;
+        }
+        case 'levelorder':
+          runAnimation(levelorderTraversal(tree), tree, 'levelorder');
+          break;
+        case 'rebalance': {
+          const { rebalance } = getVariant(treeKind);
+          if (!rebalance) break;
+          const { root, steps } = rebalance(tree);
+          runAnimation(steps, root, 'rebalance');
+          if (!sameTree(root, tree)) recordHistory({ action: 'rebalance', kind: treeKind, tree: root, bTree, bTreeOrder, duplicates });
+          break;
+        }
+        case 'rangeSearch':
+        case 'rangeCount': {
+          const { steps } = (op === 'rangeSearch' ? rangeSearch : rangeCount)(tree, value, value2);
+          runAnimation(steps, tree, op, { value, value2 });
+          break;
+        }
+        case 'lca':
+        case 'distance': {
+          const { steps } = (op === 'lca' ? lowestCommonAncestor : distanceBetween)(tree, value, value2);
+          runAnimation(steps, tree, op, { value, value2 });
+          break;
+        }
+      }
+    },
+    [tree, bTree, treeKind, bTreeOrder, duplicates, invalid, violations, traversalStyle, runAnimation, recordHistory],
+  );
+
+  // ── Import (the keys arrive in insertion order, already validated) ───────
+  const handleImport = useCallback(
+    (values: number[]) => {
+      setShowImportExport(false);
+      resetPlayback();
+
+      let height: number;
+      if (treeKind === 'btree') {
+        const rebuilt = buildBTree(values, bTreeOrder);
+        setBTree(rebuilt);
+        recordHistory({ action: 'import', kind: treeKind, tree, bTree: rebuilt, bTreeOrder, duplicates });
+        height = bTreeHeight(rebuilt);
+      } else {
+        const rebuilt = buildTree(treeKind, values, duplicates);
+        setTree(rebuilt);
+        recordHistory({ action: 'import', kind: treeKind, tree: rebuilt, bTree, bTreeOrder, duplicates });
+        height = treeHeight(rebuilt);
+      }
+      setDescription(`Imported ${values.length} keys into the ${getKindNames(treeKind).label} (h=${height}).`);
+    },
+    [tree, bTree, treeKind, bTreeOrder, duplicates, resetPlayback, recordHistory],
+  );
+
+  // ── Build a balanced tree from a list of keys ───────────────────────────
+  const handleBuildBalanced = useCallback(
+    (values: number[]) => {
+      const build = treeKind === 'btree' ? undefined : getVariant(treeKind).buildBalanced;
+      if (!build) return;
+      const { root, steps } = build(values);
+      runAnimation(steps, root, 'buildBalanced');
+      if (!sameTree(root, tree)) recordHistory({ action: 'buildBalanced', kind: treeKind, tree: root, bTree, bTreeOrder, duplicates });
+    },
+    [tree, treeKind, bTree, bTreeOrder, duplicates, runAnimation, recordHistory],
+  );
+
+  // ── Handle operations ────────────────────────────────────────────────────
+  const handleOperation = useCallback(
+    (op: OperationType) => {
+      // Some operations need a numeric input → show modal
+      if (INPUT_OPS.includes(op) || op in TWO_INPUT_OPS) {
+        setModalOp(op);
+        return;
+      }
+      runOperation(op);
+    },
+    [runOperation],
+  );
+
+  // ── Handle modal submit ──────────────────────────────────────────────────
+  const handleModalSubmit = useCallback(
+    (...values: number[]) => {
+      setModalOp(null);
+      if (modalOp === 'buildBalanced') handleBuildBalanced(values);
+      else if (modalOp) runOperation(modalOp, values[0], values[1]);
+    },
+    [modalOp, runOperation, handleBuildBalanced],
+  );
+
+  // ── Free-form edits (edit mode) ─────────────────────────────────────────
+  const applyEdit = useCallback(
+    (result: EditResult, value: number | undefined, message: string) => {
+      if (!result.ok) {
+        setDescription(result.error);
+        return;
+      }
+      setSelection(null);
+      setTree(result.tree);
+      recordHistory({ action: 'edit', value, kind: treeKind, tree: result.tree, bTree, bTreeOrder, duplicates });
+      setDescription(`${result.message ?? message} ${describeValidity(findViolations(result.tree, duplicates))}`);
+    },
+    [treeKind, bTree, bTreeOrder, duplicates, recordHistory],
+  );
+
+  const toggleEditMode = useCallback(() => {
+    setSelection(null);
+    if (editMode) {
+      setEditMode(false);
+      setDescription(`Done editing. ${describeValidity(violations)}`);
+      return;
+    }
+    resetPlayback();
+    setEditMode(true);
+    setDescription('Edit mode: drag a node onto the left or right half of another to reattach it, or click a node to edit it.');
+  }, [editMode, violations, resetPlayback]);
+
+  const handleNodeDrop = useCallback(
+    (id: NodeId, target: NodeId | null, side: ChildSide) => {
+      const value = findNodeById(tree, id)?.value;
+      if (target === null) {
+        setDescription(`Drop ${value} onto another node to reattach it there.`);
+        return;
       }
+      const targetValue = findNodeById(tree, target)?.value;
+      applyEdit(reattachSubtree(tree, id, target, side), value, `Moved ${value} to be the ${side} child of ${targetValue}.`);
+    },
+    [tree, applyEdit],
+  );
+
+  const handleEditSubmit = useCallback(
+    (key: number) => {
+      setEditPrompt(null);
+      if (!editPrompt) return;
+      if (editPrompt.action === 'root') {
+        applyEdit({ ok: true, tree: createNode(key) }, key, `Added ${key} as the root.`);
+      } else if (editPrompt.action === 'key') {
+        const { id, value } = editPrompt;
+        applyEdit(setKey(tree, id, key, duplicates), value, `Changed ${value} to ${key}.`);
+      } else {
+        const { action: side, id, value } = editPrompt;
+        applyEdit(addChild(tree, id, side, key, duplicates), key, `Added ${key} as the ${side} child of ${value}.`);
+      }
+    },
+    [editPrompt, tree, duplicates, applyEdit],
+  );
+
+  // ── Traversal style toggle (reruns the traversal on screen) ────────────
+  const handleTraversalStyleChange = useCallback(
+    (style: TraversalStyle) => {
+      setTraversalStyle(style);
+      if (activeOperation && isDepthFirstOp(activeOperation.op)) runOperation(activeOperation.op, 0, 0, style);
+    },
+    [activeOperation, runOperation],
+  );
+
+  // ── Context menu on a clicked node ──────────────────────────────────────
+  const handleMenuOperation = useCallback(
+    (op: OperationType, value: number) => {
+      setSelection(null);
+      runOperation(op, value);
     },
-    [modalOp, tree, runAnimation],
+    [runOperation],
   );
 
+  const closeMenu = useCallback(() => setSelection(null), []);
+
+  const menuItems = useMemo((): NodeMenuItem[] => {
+    if (!selection) return [];
+    const { id, value } = selection;
+    const prompt = (next: EditPrompt) => () => {
+      setSelection(null);
+      setEditPrompt(next);
+    };
+
+    if (editMode) {
+      return [
+        { label: 'Edit key', onSelect: prompt({ action: 'key', id, value }) },
+        { label: 'Add left child', onSelect: prompt({ action: 'left', id, value }) },
+        { label: 'Add right child', onSelect: prompt({ action: 'right', id, value }) },
+        {
+          label: 'Delete subtree',
+          onSelect: () => applyEdit(deleteSubtree(tree, id), value, `Deleted the subtree rooted at ${value}.`),
+        },
+      ];
+    }
+
+    return NODE_MENU_OPS.filter(({ op }) => treeKind !== 'btree' || BTREE_OPERATIONS.includes(op)).map(({ label, op }) => {
+      const isBlocked = invalid && ORDERED_OPS.includes(op);
+      return {
+        label,
+        onSelect: () => handleMenuOperation(op, value),
+        disabled: animating || isBlocked,
+        title: isBlocked ? INVALID_REASON : undefined,
+      };
+    });
+  }, [selection, editMode, tree, treeKind, invalid, animating, applyEdit, handleMenuOperation]);
+
+  // ── Shared link: replay its operation up to the shared step ─────────────
+  // (on the first frame, once the canvas is up)
+  const linkReplayed = useRef(false);
+  useEffect(() => {
+    if (linkReplayed.current || !linked?.op) return;
+    const { op, value, value2, step = 1, style } = linked;
+    const id = requestAnimationFrame(() => {
+      linkReplayed.current = true;
+      runOperation(op, value, value2, style);
+      playbackRef.current?.goTo(step - 1);
+      setIsPlaying(false);
+    });
+    return () => cancelAnimationFrame(id);
+  }, [linked, runOperation]);
+
+  // ── Keep the URL hash in sync so the address bar is always a share link ──
+  useEffect(() => {
+    const { kind, tree, bTree, bTreeOrder, duplicates } = currentEntry(history);
+    const state: SharedState =
+      replay && totalSteps > 0 ? { ...replay, step: shownStep + 1 } : { kind, tree, bTree, bTreeOrder, duplicates };
+    window.history.replaceState(null, '', `#${encodeShareHash(state)}`);
+  }, [history, replay, shownStep, totalSteps]);
+
+  // Pasting a different link into the address bar only changes the hash
+  useEffect(() => {
+    const onHashChange = () => window.location.reload();
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  // ── Canvas hook ──────────────────────────────────────────────────────────
+  const { canvasRef, fitToView, zoomIn, zoomOut } = useCanvas({
+    tree,
+    bTree: treeKind === 'btree' ? bTree : undefined,
+    highlightNodes: shownHighlights,
+    highlightEdges,
+    activeNode: activeNodeId,
+    transitionMs: BASE_STEP_DELAY / speed,
+    onNodeClick: handleNodeClick,
+    onNodeDrop: editMode ? handleNodeDrop : undefined,
+    invalidNodes: violations,
+    threads,
+  });
+
+  // ── Image export of the frame on screen ─────────────────────────────────
+  const currentFrame = useCallback(
+    (): Frame => ({
+      tree,
+      bTree: treeKind === 'btree' ? bTree : undefined,
+      highlightNodes,
+      highlightEdges,
+      activeNode: activeNodeId,
+    }),
+    [tree, bTree, treeKind, highlightNodes, highlightEdges, activeNodeId],
+  );
+
+  const handleExportPNG = useCallback(async () => {
+    const blob = await renderFramePNG(currentFrame(), canvasRef.current?.clientWidth ?? 800);
+    downloadBlob(blob, 'tree.png');
+  }, [currentFrame, canvasRef]);
+
+  const handleExportSVG = useCallback(() => {
+    const svg = renderFrameSVG(currentFrame(), canvasRef.current?.clientWidth ?? 800);
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), 'tree.svg');
+  }, [currentFrame, canvasRef]);
+
+  // ── Clip export of the last operation (rendered offscreen) ──────────────
+  const exportClip = useCallback(
+    async (
+      encode: (source: AnimationSource, viewWidth: number, stepDelay: number, onProgress: ProgressCallback) => Promise<Blob>,
+      label: string,
+      filename: string,
+    ) => {
+      const source = animationRef.current;
+      if (!source) return;
+      setExportProgress(`${label} 0/${source.steps.length + 1}`);
+      try {
+        const blob = await encode(source, canvasRef.current?.clientWidth ?? 800, BASE_STEP_DELAY / speed, (done, total) =>
+          setExportProgress(`${label} ${done}/${total}`),
+        );
+        downloadBlob(blob, filename);
+      } catch (e) {
+        setDescription(`${label} export could not be completed: ${(e as Error).message}`);
+      } finally {
+        setExportProgress(null);
+      }
+    },
+    [speed, canvasRef],
+  );
+
+  const handleExportGIF = useCallback(() => exportClip(exportGIF, 'GIF', 'operation.gif'), [exportClip]);
+  const handleExportWebM = useCallback(() => exportClip(exportWebM, 'WebM', 'operation.webm'), [exportClip]);
+
   // ── Playback controls ────────────────────────────────────────────────────
   const handlePlay = useCallback(() => {
     playbackRef.current?.play();
@@ -239,21 +951,67 @@ function App() {
   // ── Render ───────────────────────────────────────────────────────────────
   return (
     <div className="app">
-      <Header description={description} />
+      <Header description={description} title={getKindNames(treeKind).title} />
 
       <div className="main-area">
-        <Sidebar onOperation={handleOperation} disabled={animating} />
+        <Sidebar
+          onOperation={handleOperation}
+          treeKind={treeKind}
+          onTreeKindChange={handleTreeKindChange}
+          bTreeOrder={bTreeOrder}
+          onBTreeOrderChange={handleBTreeOrderChange}
+          duplicates={duplicates}
+          onDuplicatesChange={handleDuplicatesChange}
+          disabled={animating || editMode}
+          blocked={blockedOps}
+        >
+          <button
+            className={`sidebar-btn${editMode ? ' sidebar-btn--active' : ''}`}
+            disabled={animating || treeKind !== 'bst'}
+            title={treeKind === 'bst' ? 'Reshape the tree freely; the ordering is checked as you go' : 'Only plain BSTs can be edited'}
+            onClick={toggleEditMode}
+          >
+            {editMode ? 'Done Editing' : 'Edit Tree'}
+          </button>
+          <button className="sidebar-btn" disabled={animating} onClick={() => setShowImportExport(true)}>
+            Import / Export
+          </button>
+          <HistoryPanel history={history} onUndo={handleUndo} onRedo={handleRedo} onJump={handleJump} />
+        </Sidebar>
 
-        <div className="canvas-container">
-          <canvas ref={canvasRef} />
+        <div className="canvas-column">
+          <div className="canvas-container">
+            <canvas ref={canvasRef} />
+            <CanvasToolbar
+              onZoomIn={zoomIn}
+              onZoomOut={zoomOut}
+              onFitToView={fitToView}
+              onExportPNG={handleExportPNG}
+              onExportSVG={handleExportSVG}
+              onExportGIF={handleExportGIF}
+              onExportWebM={handleExportWebM}
+              canExportAnimation={totalSteps > 0}
+              canExportWebM={webmSupported()}
+              exportProgress={exportProgress}
+            />
+            {invalid && <div className="canvas-warning">{describeValidity(violations)}</div>}
+            {selection && (
+              <NodeMenu value={selection.value} x={selection.x} y={selection.y} items={menuItems} onClose={closeMenu} />
+            )}
+          </div>
+          {aux && <AuxStrip aux={aux} />}
         </div>
 
         <AlgorithmPanel
           activeOperation={activeOperation}
           description={description}
           activeLine={activeLine}
+          callStack={callStack}
+          watch={watch}
           isAnimating={animating}
           stepLog={stepLog}
+          traversalStyle={traversalStyle}
+          onTraversalStyleChange={handleTraversalStyleChange}
         />
       </div>
 
@@ -274,12 +1032,30 @@ function App() {
 
       {modalOp && (
         <InputModal
-          title={modalOp === 'create' ? 'Create Random BST' : modalOp === 'selectKth' ? 'Select k-th smallest' : `${modalOp}(v)`}
-          placeholder={modalOp === 'create' ? 'Number of nodes…' : modalOp === 'selectKth' ? 'Enter k…' : 'Enter value…'}
+          {...modalProps(modalOp, treeKind)}
           onSubmit={handleModalSubmit}
           onCancel={() => setModalOp(null)}
         />
       )}
+
+      {editPrompt && (
+        <InputModal
+          title={editPromptTitle(editPrompt)}
+          placeholder="Enter key…"
+          onSubmit={handleEditSubmit}
+          onCancel={() => setEditPrompt(null)}
+        />
+      )}
+
+      {showImportExport && (
+        <ImportExportModal
+          tree={tree}
+          keys={treeKind === 'btree' ? bTreeKeys(bTree) : undefined}
+          duplicates={treeKind === 'bst' ? duplicates : 'reject'}
+          onImport={handleImport}
+          onCancel={() => setShowImportExport(false)}
+        />
+      )}
     </div>
   );
 }
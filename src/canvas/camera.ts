@@ -0,0 +1,135 @@
+import type { PositionedNode, PositionedBTreeNode } from '../types';
+import { NODE_RADIUS, BNODE_HEIGHT, PADDING_TOP } from '../core/layout';
+import { ARROW_EXTENT } from './renderer';
+
+/**
+ * 2D camera over the laid-out tree.
+ *
+ * Layout coordinates ("world") map to canvas CSS pixels ("screen") as
+ *   screen = world * zoom + (x, y)
+ * so the identity camera shows the layout exactly as it was computed.
+ */
+
+export interface Camera {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export const IDENTITY_CAMERA: Camera = { x: 0, y: 0, zoom: 1 };
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 4;
+
+/** Space kept clear of the tree at the sides and bottom when fitting */
+const FIT_MARGIN = 18;
+/** Screen y below the N/h header where fitted trees start */
+const VIEW_TOP = PADDING_TOP - NODE_RADIUS - 8;
+/** A followed node is re-centred once it comes this close to an edge */
+const FOLLOW_MARGIN = 60;
+
+export interface Bounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+// ── Conversions ────────────────────────────────────────────────────────────
+
+export function screenToWorld(cam: Camera, sx: number, sy: number): { x: number; y: number } {
+  return { x: (sx - cam.x) / cam.zoom, y: (sy - cam.y) / cam.zoom };
+}
+
+export function worldToScreen(cam: Camera, wx: number, wy: number): { x: number; y: number } {
+  return { x: wx * cam.zoom + cam.x, y: wy * cam.zoom + cam.y };
+}
+
+// ── Movements ──────────────────────────────────────────────────────────────
+
+export function panBy(cam: Camera, dx: number, dy: number): Camera {
+  return { ...cam, x: cam.x + dx, y: cam.y + dy };
+}
+
+/** Zoom by `factor`, keeping the world point under (sx, sy) fixed. */
+export function zoomAt(cam: Camera, sx: number, sy: number, factor: number): Camera {
+  const zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, cam.zoom * factor));
+  const k = zoom / cam.zoom;
+  return { zoom, x: sx - (sx - cam.x) * k, y: sy - (sy - cam.y) * k };
+}
+
+/** Move a fraction `t` of the way from `from` to `to`. */
+export function approachCamera(from: Camera, to: Camera, t: number): Camera {
+  const next = {
+    x: from.x + (to.x - from.x) * t,
+    y: from.y + (to.y - from.y) * t,
+    zoom: from.zoom + (to.zoom - from.zoom) * t,
+  };
+  const settled =
+    Math.abs(to.x - next.x) < 0.5 && Math.abs(to.y - next.y) < 0.5 && Math.abs(to.zoom - next.zoom) < 0.001;
+  return settled ? to : next;
+}
+
+export function sameCamera(a: Camera, b: Camera): boolean {
+  return a.x === b.x && a.y === b.y && a.zoom === b.zoom;
+}
+
+// ── Bounds and fitting ─────────────────────────────────────────────────────
+
+function growBounds(b: Bounds | null, minX: number, maxX: number, minY: number, maxY: number): Bounds {
+  if (!b) return { minX, maxX, minY, maxY };
+  return {
+    minX: Math.min(b.minX, minX),
+    maxX: Math.max(b.maxX, maxX),
+    minY: Math.min(b.minY, minY),
+    maxY: Math.max(b.maxY, maxY),
+  };
+}
+
+/** World-space box around every node, with room for the active arrow. */
+export function treeBounds(node: PositionedNode | null, b: Bounds | null = null): Bounds | null {
+  if (!node) return b;
+  b = growBounds(b, node.x - NODE_RADIUS, node.x + NODE_RADIUS, node.y - NODE_RADIUS, node.y + NODE_RADIUS + ARROW_EXTENT);
+  return treeBounds(node.right, treeBounds(node.left, b));
+}
+
+export function bTreeBounds(node: PositionedBTreeNode | null, b: Bounds | null = null): Bounds | null {
+  if (!node) return b;
+  const half = BNODE_HEIGHT / 2;
+  b = growBounds(b, node.x - node.width / 2, node.x + node.width / 2, node.y - half, node.y + half + ARROW_EXTENT);
+  for (const child of node.children) b = bTreeBounds(child, b);
+  return b;
+}
+
+/**
+ * Camera that shows all of `bounds` in a `width` x `height` view. A layout
+ * that already fits keeps the identity camera; anything larger is zoomed
+ * out and centred (never zoomed in past 1).
+ */
+export function fitCamera(bounds: Bounds | null, width: number, height: number): Camera {
+  if (!bounds) return IDENTITY_CAMERA;
+  if (bounds.minX >= 0 && bounds.maxX <= width && bounds.minY >= 0 && bounds.maxY <= height) {
+    return IDENTITY_CAMERA;
+  }
+
+  const w = bounds.maxX - bounds.minX;
+  const h = bounds.maxY - bounds.minY;
+  const zoom = Math.max(
+    MIN_ZOOM,
+    Math.min(1, (width - FIT_MARGIN * 2) / w, (height - VIEW_TOP - FIT_MARGIN) / h),
+  );
+  return {
+    zoom,
+    x: (width - w * zoom) / 2 - bounds.minX * zoom,
+    y: VIEW_TOP - bounds.minY * zoom,
+  };
+}
+
+/** Camera re-centred on (wx, wy) if that point is near or past the view's edge. */
+export function followPoint(cam: Camera, wx: number, wy: number, width: number, height: number): Camera {
+  const s = worldToScreen(cam, wx, wy);
+  const inside =
+    s.x >= FOLLOW_MARGIN && s.x <= width - FOLLOW_MARGIN && s.y >= VIEW_TOP && s.y <= height - FOLLOW_MARGIN;
+  if (inside) return cam;
+  return { ...cam, x: width / 2 - wx * cam.zoom, y: height / 2 - wy * cam.zoom };
+}
@@ -0,0 +1,142 @@
+import type { TreeNode, BTreeNode, AnimationStep } from '../types';
+import type { Frame } from './exportImage';
+import { frameSize, drawFrame } from './exportImage';
+import { encodeGIF } from './gifEncoder';
+
+/**
+ * Export of a whole operation's steps as an animated GIF or a WebM clip.
+ *
+ * Frames are drawn on their own offscreen canvas, so the live canvas and
+ * the playback position are left alone. Each step is shown for one
+ * playback interval; the final tree is held a little longer.
+ */
+
+export interface AnimationSource {
+  steps: AnimationStep[];
+  finalTree: TreeNode | null;
+  /** Defined in B-tree mode */
+  finalBTree?: BTreeNode | null;
+}
+
+export type ProgressCallback = (done: number, total: number) => void;
+
+/** The finished tree stays up this many step intervals before looping */
+const FINAL_HOLD = 3;
+
+function nextTick(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** One frame per step plus the finished tree, as playback shows them. */
+export function animationFrames({ steps, finalTree, finalBTree }: AnimationSource): Frame[] {
+  // Steps without a tree snapshot leave the previous one on screen
+  let tree: TreeNode | null = null;
+  const frames: Frame[] = steps.map((step) => {
+    if (step.tree) tree = step.tree;
+    return {
+      tree,
+      bTree: step.bTree,
+      highlightNodes: step.highlightNodes,
+      highlightEdges: step.highlightEdges,
+      activeNode: step.activeNode,
+    };
+  });
+
+  // Completion keeps the last highlights but hides the arrow
+  const last = steps[steps.length - 1];
+  frames.push({
+    tree: finalTree,
+    bTree: finalBTree,
+    highlightNodes: last?.highlightNodes ?? new Map(),
+    highlightEdges: last?.highlightEdges ?? [],
+  });
+  return frames;
+}
+
+/** One canvas big enough for every frame, so the clip never resizes. */
+function createFrameCanvas(frames: Frame[], viewWidth: number) {
+  let width = 0;
+  let height = 0;
+  for (const frame of frames) {
+    const size = frameSize(frame, viewWidth);
+    width = Math.max(width, size.width);
+    height = Math.max(height, size.height);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  return { canvas, ctx, width, height };
+}
+
+// ── GIF ────────────────────────────────────────────────────────────────────
+
+export async function exportGIF(
+  source: AnimationSource,
+  viewWidth: number,
+  stepDelay: number,
+  onProgress?: ProgressCallback,
+): Promise<Blob> {
+  const frames = animationFrames(source);
+  const { ctx, width, height } = createFrameCanvas(frames, viewWidth);
+
+  const gifFrames = [];
+  for (let i = 0; i < frames.length; i++) {
+    drawFrame(ctx, frames[i], width, height);
+    gifFrames.push({
+      pixels: ctx.getImageData(0, 0, width, height).data,
+      delay: i === frames.length - 1 ? stepDelay * FINAL_HOLD : stepDelay,
+    });
+    onProgress?.(i + 1, frames.length);
+    await nextTick(); // keep the page responsive between frames
+  }
+
+  const bytes = encodeGIF(gifFrames, width, height);
+  return new Blob([bytes.buffer as ArrayBuffer], { type: 'image/gif' });
+}
+
+// ── WebM ───────────────────────────────────────────────────────────────────
+
+export function webmSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported('video/webm');
+}
+
+/**
+ * Record the frames with MediaRecorder. Recording happens in real time, so
+ * this takes as long as the clip itself.
+ */
+export async function exportWebM(
+  source: AnimationSource,
+  viewWidth: number,
+  stepDelay: number,
+  onProgress?: ProgressCallback,
+): Promise<Blob> {
+  const frames = animationFrames(source);
+  const { canvas, ctx, width, height } = createFrameCanvas(frames, viewWidth);
+
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => chunks.push(e.data);
+  const stopped = new Promise((resolve) => (recorder.onstop = resolve));
+
+  recorder.start();
+  for (let i = 0; i < frames.length; i++) {
+    drawFrame(ctx, frames[i], width, height);
+    track.requestFrame();
+    onProgress?.(i + 1, frames.length);
+    await sleep(i === frames.length - 1 ? stepDelay * FINAL_HOLD : stepDelay);
+  }
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach((t) => t.stop());
+
+  return new Blob(chunks, { type: 'video/webm' });
+}
@@ -0,0 +1,270 @@
+import type {
+  TreeNode,
+  BTreeNode,
+  HighlightType,
+  EdgeHighlight,
+  HighlightEdge,
+  NodeId,
+  PositionedNode,
+  PositionedBTreeNode,
+} from '../types';
+import {
+  layoutTree,
+  layoutBTree,
+  NODE_RADIUS,
+  LEVEL_GAP,
+  PADDING_TOP,
+  PADDING_X,
+  MIN_NODE_GAP,
+  KEY_WIDTH,
+  BNODE_HEIGHT,
+  BNODE_GAP,
+} from '../core/layout';
+import { countNodes, treeHeight } from '../core/bst';
+import { countKeys, bTreeHeight } from '../core/btree';
+import {
+  renderTree,
+  renderBTree,
+  edgeStyle,
+  edgeHighlights,
+  nodeStyle,
+  labelOffsets,
+  badgeCentre,
+  arrowPoints,
+  arrowColor,
+  metaLabel,
+  findNodePosition,
+  findBNodeWithKey,
+  bEdgeStartX,
+  COLORS,
+  BG_COLOR,
+  NODE_FILL,
+  NODE_STROKE,
+  NODE_TEXT,
+  META_TEXT,
+  BADGE_FILL,
+  BADGE_TEXT,
+  BADGE_RADIUS,
+  VALUE_FONT,
+  PRIORITY_FONT,
+  BADGE_FONT,
+  META_FONT,
+  EMPTY_FONT,
+  EMPTY_MESSAGE,
+  META_Y,
+  ARROW_EXTENT,
+} from './renderer';
+
+/**
+ * Export of the current frame as PNG or standalone SVG.
+ *
+ * Both are drawn from a fresh layout sized to the whole tree rather than
+ * copied from the on-screen canvas, so they are never cropped and are
+ * independent of `devicePixelRatio`. The SVG mirrors `renderTree` and
+ * `renderBTree` element for element using the palette and geometry they
+ * export.
+ */
+
+export interface Frame {
+  tree: TreeNode | null;
+  /** When defined, the B-tree is drawn instead of `tree` */
+  bTree?: BTreeNode | null;
+  highlightNodes: Map<NodeId, HighlightType>;
+  highlightEdges: HighlightEdge[];
+  activeNode?: NodeId;
+}
+
+const EMPTY_HEIGHT = 200;
+const BOTTOM_MARGIN = 16;
+
+// ── Sizing ─────────────────────────────────────────────────────────────────
+
+function bTreeLeafWidth(node: BTreeNode): number {
+  if (node.children.length === 0) return Math.max(1, node.keys.length) * KEY_WIDTH + BNODE_GAP;
+  return node.children.reduce((sum, c) => sum + bTreeLeafWidth(c), 0);
+}
+
+/** Image size that fits the whole tree at least `viewWidth` wide. */
+export function frameSize(frame: Frame, viewWidth: number): { width: number; height: number } {
+  if (frame.bTree !== undefined) {
+    if (!frame.bTree) return { width: viewWidth, height: EMPTY_HEIGHT };
+    const natural = bTreeLeafWidth(frame.bTree) - BNODE_GAP + PADDING_X * 2;
+    const levels = bTreeHeight(frame.bTree);
+    return {
+      width: Math.ceil(Math.max(viewWidth, natural)),
+      height: PADDING_TOP + (levels - 1) * LEVEL_GAP + BNODE_HEIGHT / 2 + ARROW_EXTENT + BOTTOM_MARGIN,
+    };
+  }
+
+  if (!frame.tree) return { width: viewWidth, height: EMPTY_HEIGHT };
+  const natural = (countNodes(frame.tree) - 1) * MIN_NODE_GAP + PADDING_X * 2;
+  const levels = treeHeight(frame.tree);
+  return {
+    width: Math.ceil(Math.max(viewWidth, natural)),
+    height: PADDING_TOP + (levels - 1) * LEVEL_GAP + NODE_RADIUS + ARROW_EXTENT + BOTTOM_MARGIN,
+  };
+}
+
+function frameMeta(frame: Frame): { nodeCount: number; treeHeight: number } {
+  return frame.bTree !== undefined
+    ? { nodeCount: countKeys(frame.bTree), treeHeight: bTreeHeight(frame.bTree) }
+    : { nodeCount: countNodes(frame.tree), treeHeight: treeHeight(frame.tree) };
+}
+
+// ── Canvas / PNG ───────────────────────────────────────────────────────────
+
+/** Draw the frame with the live renderer onto any canvas context. */
+export function drawFrame(ctx: CanvasRenderingContext2D, frame: Frame, width: number, height: number) {
+  const { highlightNodes, highlightEdges, activeNode } = frame;
+  if (frame.bTree !== undefined) {
+    renderBTree(ctx, layoutBTree(frame.bTree, width), width, height, highlightNodes, highlightEdges, frameMeta(frame), activeNode);
+  } else {
+    renderTree(ctx, layoutTree(frame.tree, width), width, height, highlightNodes, highlightEdges, frameMeta(frame), activeNode);
+  }
+}
+
+/** Render the frame offscreen at `scale` device pixels per CSS pixel. */
+export function renderFramePNG(frame: Frame, viewWidth: number, scale = 2): Promise<Blob> {
+  const { width, height } = frameSize(frame, viewWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = width * scale;
+  canvas.height = height * scale;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas 2D context unavailable'));
+  ctx.scale(scale, scale);
+  drawFrame(ctx, frame, width, height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+  });
+}
+
+// ── SVG ────────────────────────────────────────────────────────────────────
+
+/** Trim coordinates to two decimals to keep the markup small */
+function n(v: number): number {
+  return Math.round(v * 100) / 100;
+}
+
+function svgText(x: number, y: number, text: string, fill: string, font: string, baseline = 'central'): string {
+  return `<text x="${n(x)}" y="${n(y)}" fill="${fill}" style="font: ${font}" text-anchor="middle" dominant-baseline="${baseline}">${text}</text>`;
+}
+
+function svgLine(x1: number, y1: number, x2: number, y2: number, highlight?: EdgeHighlight): string {
+  const { stroke, lineWidth } = edgeStyle(highlight);
+  return `<line x1="${n(x1)}" y1="${n(y1)}" x2="${n(x2)}" y2="${n(y2)}" stroke="${stroke}" stroke-width="${lineWidth}"/>`;
+}
+
+function svgArrow(x: number, y: number, color: string, halfHeight?: number): string {
+  const points = arrowPoints(x, y, halfHeight).map(([px, py]) => `${n(px)},${n(py)}`).join(' ');
+  return `<polygon points="${points}" fill="${color}"/>`;
+}
+
+function svgEdges(node: PositionedNode, edges: Map<string, EdgeHighlight>, out: string[]) {
+  for (const child of [node.left, node.right]) {
+    if (!child) continue;
+    out.push(svgLine(node.x, node.y, child.x, child.y, edges.get(`${node.id}-${child.id}`)));
+    svgEdges(child, edges, out);
+  }
+}
+
+function svgNodes(node: PositionedNode, highlightNodes: Map<NodeId, HighlightType>, out: string[]) {
+  if (node.left) svgNodes(node.left, highlightNodes, out);
+  if (node.right) svgNodes(node.right, highlightNodes, out);
+
+  const style = nodeStyle(highlightNodes.get(node.id) ?? null, node.color);
+  const offsets = labelOffsets(node.priority);
+  out.push(
+    `<circle cx="${n(node.x)}" cy="${n(node.y)}" r="${NODE_RADIUS}" fill="${style.fill}" stroke="${style.stroke}" stroke-width="${style.lineWidth}"/>`,
+    svgText(node.x, node.y + offsets.value, String(node.value), style.text, VALUE_FONT),
+  );
+  if (node.priority !== undefined) {
+    out.push(svgText(node.x, node.y + offsets.priority, `p${node.priority}`, style.text, PRIORITY_FONT));
+  }
+  if (node.count !== undefined) {
+    const badge = badgeCentre(node.x, node.y);
+    out.push(
+      `<circle cx="${n(badge.x)}" cy="${n(badge.y)}" r="${BADGE_RADIUS}" fill="${BADGE_FILL}"/>`,
+      svgText(badge.x, badge.y, String(node.count), BADGE_TEXT, BADGE_FONT),
+    );
+  }
+}
+
+function svgBTreeEdges(node: PositionedBTreeNode, edges: Map<string, EdgeHighlight>, out: string[]) {
+  const bottom = node.y + BNODE_HEIGHT / 2;
+  node.children.forEach((child, i) => {
+    const highlight = edges.get(`${node.keys[0]}-${child.keys[0]}`);
+    out.push(svgLine(bEdgeStartX(node, i), bottom, child.x, child.y - BNODE_HEIGHT / 2, highlight));
+    svgBTreeEdges(child, edges, out);
+  });
+}
+
+function svgBTreeNodes(node: PositionedBTreeNode, highlightNodes: Map<number, HighlightType>, out: string[]) {
+  node.children.forEach((child) => svgBTreeNodes(child, highlightNodes, out));
+
+  const left = node.x - node.width / 2;
+  const top = node.y - BNODE_HEIGHT / 2;
+  node.keys.forEach((key, i) => {
+    const hl = highlightNodes.get(key);
+    out.push(
+      `<rect x="${n(left + i * KEY_WIDTH)}" y="${n(top)}" width="${KEY_WIDTH}" height="${BNODE_HEIGHT}" fill="${hl ? COLORS[hl] : NODE_FILL}"/>`,
+      svgText(left + (i + 0.5) * KEY_WIDTH, node.y, String(key), hl ? '#000000' : NODE_TEXT, VALUE_FONT),
+    );
+  });
+  out.push(
+    `<rect x="${n(left)}" y="${n(top)}" width="${n(node.width)}" height="${BNODE_HEIGHT}" fill="none" stroke="${NODE_STROKE}" stroke-width="2"/>`,
+  );
+  for (let i = 1; i < node.keys.length; i++) {
+    const x = n(left + i * KEY_WIDTH);
+    out.push(`<line x1="${x}" y1="${n(top)}" x2="${x}" y2="${n(top + BNODE_HEIGHT)}" stroke="${NODE_STROKE}" stroke-width="1"/>`);
+  }
+}
+
+/** Standalone SVG document of the frame. */
+export function renderFrameSVG(frame: Frame, viewWidth: number): string {
+  const { width, height } = frameSize(frame, viewWidth);
+  const { highlightNodes, highlightEdges, activeNode } = frame;
+  const edges = edgeHighlights(highlightEdges);
+  const out: string[] = [`<rect width="${width}" height="${height}" fill="${BG_COLOR}"/>`];
+
+  const isEmpty = frame.bTree !== undefined ? !frame.bTree : !frame.tree;
+  if (isEmpty) {
+    out.push(svgText(width / 2, height / 2, EMPTY_MESSAGE, META_TEXT, EMPTY_FONT));
+  } else {
+    out.push(svgText(width / 2, META_Y, metaLabel(frameMeta(frame)), META_TEXT, META_FONT, 'hanging'));
+
+    if (frame.bTree !== undefined) {
+      const root = layoutBTree(frame.bTree, width)!;
+      svgBTreeEdges(root, edges, out);
+      svgBTreeNodes(root, highlightNodes, out);
+      const node = activeNode !== undefined ? findBNodeWithKey(root, activeNode) : null;
+      if (node) out.push(svgArrow(node.x, node.y, arrowColor(highlightNodes.get(activeNode!)), BNODE_HEIGHT / 2));
+    } else {
+      const root = layoutTree(frame.tree, width)!;
+      svgEdges(root, edges, out);
+      svgNodes(root, highlightNodes, out);
+      const pos = activeNode !== undefined ? findNodePosition(root, activeNode) : null;
+      if (pos) out.push(svgArrow(pos.x, pos.y, arrowColor(highlightNodes.get(activeNode!))));
+    }
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    ...out.map((line) => `  ${line}`),
+    '</svg>',
+    '',
+  ].join('\n');
+}
+
+// ── Download ───────────────────────────────────────────────────────────────
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
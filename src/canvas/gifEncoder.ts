@@ -0,0 +1,223 @@
+/**
+ * Minimal animated GIF (GIF89a) encoder, entirely in the browser.
+ *
+ * All frames share one global palette of up to 256 colours, chosen by
+ * popularity: colours are bucketed to 5 bits per channel and the most
+ * frequent buckets win. Tree frames are mostly flat fills, so the palette
+ * colours come through exactly and only anti-aliased edges are rounded.
+ */
+
+export interface GifFrame {
+  /** RGBA pixels, as returned by `getImageData` */
+  pixels: Uint8ClampedArray;
+  /** How long the frame stays up (ms); GIF stores centiseconds */
+  delay: number;
+}
+
+const MAX_COLORS = 256;
+const MAX_CODE = 4096;
+
+// ── Palette ────────────────────────────────────────────────────────────────
+
+/** 15-bit bucket of an RGBA pixel at byte offset `i` */
+function bucketOf(pixels: Uint8ClampedArray, i: number): number {
+  return ((pixels[i] >> 3) << 10) | ((pixels[i + 1] >> 3) << 5) | (pixels[i + 2] >> 3);
+}
+
+function buildPalette(frames: GifFrame[]): { palette: Uint8Array; indexOf: (bucket: number) => number } {
+  // Count bucket popularity and keep a representative exact colour per bucket
+  const counts = new Uint32Array(1 << 15);
+  const exact = new Uint32Array(1 << 15);
+  for (const { pixels } of frames) {
+    for (let i = 0; i < pixels.length; i += 4) {
+      const b = bucketOf(pixels, i);
+      if (counts[b]++ === 0) exact[b] = (pixels[i] << 16) | (pixels[i + 1] << 8) | pixels[i + 2];
+    }
+  }
+
+  const chosen = Array.from(counts.keys())
+    .filter((b) => counts[b] > 0)
+    .sort((a, b) => counts[b] - counts[a])
+    .slice(0, MAX_COLORS);
+
+  const palette = new Uint8Array(MAX_COLORS * 3);
+  chosen.forEach((b, i) => {
+    palette[i * 3] = exact[b] >> 16;
+    palette[i * 3 + 1] = (exact[b] >> 8) & 0xff;
+    palette[i * 3 + 2] = exact[b] & 0xff;
+  });
+
+  // Every other bucket maps to its nearest palette entry (memoised)
+  const lookup = new Int16Array(1 << 15).fill(-1);
+  chosen.forEach((b, i) => (lookup[b] = i));
+
+  const indexOf = (bucket: number): number => {
+    if (lookup[bucket] >= 0) return lookup[bucket];
+    const r = (bucket >> 10) << 3;
+    const g = ((bucket >> 5) & 31) << 3;
+    const bl = (bucket & 31) << 3;
+    let best = 0;
+    let bestDist = Infinity;
+    for (let i = 0; i < chosen.length; i++) {
+      const dr = palette[i * 3] - r;
+      const dg = palette[i * 3 + 1] - g;
+      const db = palette[i * 3 + 2] - bl;
+      const dist = dr * dr + dg * dg + db * db;
+      if (dist < bestDist) {
+        bestDist = dist;
+        best = i;
+      }
+    }
+    lookup[bucket] = best;
+    return best;
+  };
+
+  return { palette, indexOf };
+}
+
+// ── Byte output ────────────────────────────────────────────────────────────
+
+function createByteWriter() {
+  const bytes: number[] = [];
+
+  function byte(b: number) {
+    bytes.push(b & 0xff);
+  }
+
+  function word(w: number) {
+    byte(w);
+    byte(w >> 8);
+  }
+
+  function ascii(text: string) {
+    for (const ch of text) byte(ch.charCodeAt(0));
+  }
+
+  function array(data: ArrayLike<number>) {
+    for (let i = 0; i < data.length; i++) byte(data[i]);
+  }
+
+  /** Data split into length-prefixed sub-blocks of at most 255 bytes */
+  function subBlocks(data: number[]) {
+    for (let i = 0; i < data.length; i += 255) {
+      const block = data.slice(i, i + 255);
+      byte(block.length);
+      array(block);
+    }
+    byte(0);
+  }
+
+  function result(): Uint8Array {
+    return Uint8Array.from(bytes);
+  }
+
+  return { byte, word, ascii, array, subBlocks, result };
+}
+
+// ── LZW ────────────────────────────────────────────────────────────────────
+
+function lzwEncode(indices: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+  const out: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = minCodeSize + 1;
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      out.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  let table = new Map<number, number>();
+  let nextCode = eoiCode + 1;
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      table = new Map();
+      nextCode = eoiCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+
+  emit(prefix);
+  emit(eoiCode);
+  if (bitCount > 0) out.push(bitBuffer & 0xff);
+  return out;
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/** Encode frames of identical size as a looping animated GIF. */
+export function encodeGIF(frames: GifFrame[], width: number, height: number): Uint8Array {
+  const { palette, indexOf } = buildPalette(frames);
+  const w = createByteWriter();
+
+  // Header, logical screen (global 256-colour table) and palette
+  w.ascii('GIF89a');
+  w.word(width);
+  w.word(height);
+  w.byte(0xf7);
+  w.byte(0);
+  w.byte(0);
+  w.array(palette);
+
+  // Loop forever
+  w.byte(0x21);
+  w.byte(0xff);
+  w.byte(11);
+  w.ascii('NETSCAPE2.0');
+  w.byte(3);
+  w.byte(1);
+  w.word(0);
+  w.byte(0);
+
+  for (const { pixels, delay } of frames) {
+    // Graphic control: keep the previous frame underneath, no transparency
+    w.byte(0x21);
+    w.byte(0xf9);
+    w.byte(4);
+    w.byte(0x04);
+    w.word(Math.max(2, Math.round(delay / 10)));
+    w.byte(0);
+    w.byte(0);
+
+    // Image descriptor covering the whole screen
+    w.byte(0x2c);
+    w.word(0);
+    w.word(0);
+    w.word(width);
+    w.word(height);
+    w.byte(0);
+
+    const indices = new Uint8Array(width * height);
+    for (let p = 0; p < indices.length; p++) indices[p] = indexOf(bucketOf(pixels, p * 4));
+
+    w.byte(8);
+    w.subBlocks(lzwEncode(indices, 8));
+  }
+
+  w.byte(0x3b);
+  return w.result();
+}
@@ -1,22 +1,93 @@
-import type { PositionedNode, HighlightType } from '../types';
-import { NODE_RADIUS } from '../core/layout';
+import type { PositionedNode, PositionedBTreeNode, HighlightType, NodeColor, EdgeHighlight, HighlightEdge, NodeId } from '../types';
+import { NODE_RADIUS, KEY_WIDTH, BNODE_HEIGHT } from '../core/layout';
+import type { Camera } from './camera';
 
 // ── Colour palette ─────────────────────────────────────────────────────────
+//
+// Exported so the SVG export (exportImage.ts) draws with the same values.
 
-const COLORS: Record<HighlightType, string> = {
+export const COLORS: Record<HighlightType, string> = {
   visiting: '#4caf50',   // green
   found: '#ff9800',      // orange
   inserting: '#00bcd4',  // cyan
   removing: '#f44336',   // red
   path: '#ffeb3b',       // yellow
+  selected: '#b388ff',   // purple
+  pruned: '#78909c',     // slate
 };
 
-const BG_COLOR = '#1a1a2e';
-const NODE_FILL = '#16213e';
-const NODE_STROKE = '#e0e0e0';
-const NODE_TEXT = '#ffffff';
-const EDGE_COLOR = '#888888';
-const META_TEXT = '#aaaaaa';
+export const EDGE_COLORS: Record<EdgeHighlight, string> = {
+  path: COLORS.path,
+  first: '#4dd0e1',      // cyan
+  second: '#f48fb1',     // pink
+};
+
+// Persistent red-black colours; highlights are drawn as a ring on top
+export const NODE_COLORS: Record<NodeColor, string> = {
+  red: '#c62828',
+  black: '#0b0b14',
+};
+
+export const BG_COLOR = '#1a1a2e';
+export const NODE_FILL = '#16213e';
+export const NODE_STROKE = '#e0e0e0';
+export const NODE_TEXT = '#ffffff';
+export const EDGE_COLOR = '#888888';
+export const META_TEXT = '#aaaaaa';
+/** Temporary Morris threads */
+export const THREAD_COLOR = '#80deea';
+/** Ring around nodes that break the BST ordering (edit mode) */
+export const INVALID_COLOR = '#ff1744';
+/** Badge with the number of copies of a counted duplicate key */
+export const BADGE_FILL = '#ff7043';
+export const BADGE_TEXT = '#000000';
+
+export const VALUE_FONT = 'bold 14px monospace';
+export const PRIORITY_FONT = '10px monospace';
+export const BADGE_FONT = 'bold 10px monospace';
+export const META_FONT = '13px monospace';
+export const EMPTY_FONT = '16px monospace';
+export const EMPTY_MESSAGE = 'Empty tree — use Create or Insert to begin';
+
+// ── Styles shared by the canvas and SVG renderers ──────────────────────────
+
+export function edgeStyle(highlight?: EdgeHighlight): { stroke: string; lineWidth: number } {
+  return highlight ? { stroke: EDGE_COLORS[highlight], lineWidth: 2.5 } : { stroke: EDGE_COLOR, lineWidth: 1.5 };
+}
+
+/** Highlighted edges keyed `from-to`, for O(1) lookup while drawing */
+export function edgeHighlights(edges: HighlightEdge[]): Map<string, EdgeHighlight> {
+  return new Map(edges.map(([a, b, color = 'path']) => [`${a}-${b}`, color]));
+}
+
+export function nodeStyle(
+  highlight: HighlightType | null,
+  color?: NodeColor,
+): { fill: string; stroke: string; lineWidth: number; text: string } {
+  if (color) {
+    return {
+      fill: NODE_COLORS[color],
+      stroke: highlight ? COLORS[highlight] : NODE_STROKE,
+      lineWidth: highlight ? 4 : 2,
+      text: NODE_TEXT,
+    };
+  }
+  if (highlight) return { fill: COLORS[highlight], stroke: '#ffffff', lineWidth: 2.5, text: '#000000' };
+  return { fill: NODE_FILL, stroke: NODE_STROKE, lineWidth: 2, text: NODE_TEXT };
+}
+
+/** Count badges sit on the node's upper-right rim */
+export const BADGE_RADIUS = 8;
+
+export function badgeCentre(x: number, y: number): { x: number; y: number } {
+  const offset = NODE_RADIUS * Math.SQRT1_2;
+  return { x: x + offset, y: y - offset };
+}
+
+/** Vertical offsets of the key and treap priority labels from the node centre */
+export function labelOffsets(priority?: number): { value: number; priority: number } {
+  return { value: priority === undefined ? 0 : -5, priority: 9 };
+}
 
 // ── Draw helpers ───────────────────────────────────────────────────────────
 
@@ -26,13 +97,14 @@ function drawEdge(
   y1: number,
   x2: number,
   y2: number,
-  highlighted: boolean,
+  highlight?: EdgeHighlight,
 ) {
   ctx.beginPath();
   ctx.moveTo(x1, y1);
   ctx.lineTo(x2, y2);
-  ctx.strokeStyle = highlighted ? COLORS.path : EDGE_COLOR;
-  ctx.lineWidth = highlighted ? 2.5 : 1.5;
+  const style = edgeStyle(highlight);
+  ctx.strokeStyle = style.stroke;
+  ctx.lineWidth = style.lineWidth;
   ctx.stroke();
 }
 
@@ -42,29 +114,43 @@ function drawNode(
   y: number,
   value: number,
   highlight: HighlightType | null,
+  color?: NodeColor,
+  priority?: number,
+  count?: number,
 ) {
   ctx.beginPath();
   ctx.arc(x, y, NODE_RADIUS, 0, Math.PI * 2);
 
-  if (highlight) {
-    ctx.fillStyle = COLORS[highlight];
-    ctx.strokeStyle = '#ffffff';
-    ctx.lineWidth = 2.5;
-  } else {
-    ctx.fillStyle = NODE_FILL;
-    ctx.strokeStyle = NODE_STROKE;
-    ctx.lineWidth = 2;
-  }
-
+  const style = nodeStyle(highlight, color);
+  ctx.fillStyle = style.fill;
+  ctx.strokeStyle = style.stroke;
+  ctx.lineWidth = style.lineWidth;
   ctx.fill();
   ctx.stroke();
 
-  // Value label
-  ctx.fillStyle = highlight ? '#000000' : NODE_TEXT;
-  ctx.font = 'bold 14px monospace';
+  // Value label (nudged up to make room for a treap priority underneath)
+  const offsets = labelOffsets(priority);
+  ctx.fillStyle = style.text;
+  ctx.font = VALUE_FONT;
   ctx.textAlign = 'center';
   ctx.textBaseline = 'middle';
-  ctx.fillText(String(value), x, y);
+  ctx.fillText(String(value), x, y + offsets.value);
+
+  if (priority !== undefined) {
+    ctx.font = PRIORITY_FONT;
+    ctx.fillText(`p${priority}`, x, y + offsets.priority);
+  }
+
+  if (count !== undefined) {
+    const badge = badgeCentre(x, y);
+    ctx.beginPath();
+    ctx.arc(badge.x, badge.y, BADGE_RADIUS, 0, Math.PI * 2);
+    ctx.fillStyle = BADGE_FILL;
+    ctx.fill();
+    ctx.fillStyle = BADGE_TEXT;
+    ctx.font = BADGE_FONT;
+    ctx.fillText(String(count), badge.x, badge.y);
+  }
 }
 
 // ── Draw active-node arrow indicator ────────────────────────────────────────
@@ -73,75 +159,132 @@ const ARROW_GAP = 6;       // space between node circle and arrow tip
 const ARROW_HEIGHT = 14;
 const ARROW_HALF_WIDTH = 7;
 
+/** How far below a node's edge the arrow reaches */
+export const ARROW_EXTENT = ARROW_GAP + ARROW_HEIGHT;
+
+/** Tip, bottom-left and bottom-right corners of the arrow under a node */
+export function arrowPoints(x: number, y: number, halfHeight = NODE_RADIUS): Array<[number, number]> {
+  const tipY = y + halfHeight + ARROW_GAP;
+  const baseY = tipY + ARROW_HEIGHT;
+  return [
+    [x, tipY],                       // tip (pointing down)
+    [x - ARROW_HALF_WIDTH, baseY],   // bottom-left
+    [x + ARROW_HALF_WIDTH, baseY],   // bottom-right
+  ];
+}
+
+/** Arrow colour: the node's highlight colour, or white */
+export function arrowColor(highlight: HighlightType | undefined): string {
+  return highlight ? COLORS[highlight] : '#ffffff';
+}
+
 function drawActiveArrow(
   ctx: CanvasRenderingContext2D,
   x: number,
   y: number,
   color: string,
+  halfHeight = NODE_RADIUS,
 ) {
-  const tipY = y + NODE_RADIUS + ARROW_GAP;
-  const baseY = tipY + ARROW_HEIGHT;
+  const [tip, bottomLeft, bottomRight] = arrowPoints(x, y, halfHeight);
 
   ctx.beginPath();
-  ctx.moveTo(x, tipY);                        // tip (pointing down)
-  ctx.lineTo(x - ARROW_HALF_WIDTH, baseY);    // bottom-left
-  ctx.lineTo(x + ARROW_HALF_WIDTH, baseY);    // bottom-right
+  ctx.moveTo(...tip);
+  ctx.lineTo(...bottomLeft);
+  ctx.lineTo(...bottomRight);
   ctx.closePath();
 
   ctx.fillStyle = color;
   ctx.fill();
 }
 
-// ── Main render function ───────────────────────────────────────────────────
+// ── Background, empty state and metadata header ────────────────────────────
 
-export function renderTree(
+export const META_Y = 12;
+
+export function metaLabel(meta: { nodeCount: number; treeHeight: number }): string {
+  return `N=${meta.nodeCount}, h=${meta.treeHeight}`;
+}
+
+function applyCamera(ctx: CanvasRenderingContext2D, camera?: Camera) {
+  if (!camera) return;
+  ctx.translate(camera.x, camera.y);
+  ctx.scale(camera.zoom, camera.zoom);
+}
+
+/** Returns false when the tree is empty (nothing more to draw). */
+function drawBackground(
   ctx: CanvasRenderingContext2D,
-  root: PositionedNode | null,
+  hasRoot: boolean,
   width: number,
   height: number,
-  highlightNodes: Map<number, HighlightType>,
-  highlightEdges: Array<[number, number]>,
   meta: { nodeCount: number; treeHeight: number },
-  activeNode?: number,
-) {
+): boolean {
   // Clear canvas
   ctx.fillStyle = BG_COLOR;
   ctx.fillRect(0, 0, width, height);
 
-  if (!root) {
+  if (!hasRoot) {
     ctx.fillStyle = META_TEXT;
-    ctx.font = '16px monospace';
+    ctx.font = EMPTY_FONT;
     ctx.textAlign = 'center';
     ctx.textBaseline = 'middle';
-    ctx.fillText('Empty tree — use Create or Insert to begin', width / 2, height / 2);
-    return;
+    ctx.fillText(EMPTY_MESSAGE, width / 2, height / 2);
+    return false;
   }
 
   // Metadata header
   ctx.fillStyle = META_TEXT;
-  ctx.font = '13px monospace';
+  ctx.font = META_FONT;
   ctx.textAlign = 'center';
   ctx.textBaseline = 'top';
-  ctx.fillText(`N=${meta.nodeCount}, h=${meta.treeHeight}`, width / 2, 12);
+  ctx.fillText(metaLabel(meta), width / 2, META_Y);
+  return true;
+}
+
+// ── Main render function ───────────────────────────────────────────────────
 
-  // Build edge highlight set for O(1) lookup
-  const edgeSet = new Set(highlightEdges.map(([a, b]) => `${a}-${b}`));
+export function renderTree(
+  ctx: CanvasRenderingContext2D,
+  root: PositionedNode | null,
+  width: number,
+  height: number,
+  highlightNodes: Map<NodeId, HighlightType>,
+  highlightEdges: HighlightEdge[],
+  meta: { nodeCount: number; treeHeight: number },
+  activeNode?: NodeId,
+  fading: PositionedNode[] = [],
+  camera?: Camera,
+  invalidNodes: Set<NodeId> = new Set(),
+  threads: Array<[NodeId, NodeId]> = [],
+) {
+  if (!drawBackground(ctx, root !== null, width, height, meta) || !root) return;
+
+  // Background and header stay put; the tree itself is drawn through the camera
+  ctx.save();
+  applyCamera(ctx, camera);
+
+  // Nodes removed since the last layout fade out underneath the live tree
+  for (const node of fading) {
+    ctx.globalAlpha = node.alpha ?? 1;
+    drawNode(ctx, node.x, node.y, node.value, highlightNodes.get(node.id) ?? null, node.color, node.priority, node.count);
+  }
+  ctx.globalAlpha = 1;
 
   // First pass: draw edges
-  drawEdges(ctx, root, edgeSet);
+  drawEdges(ctx, root, edgeHighlights(highlightEdges));
 
   // Second pass: draw nodes (on top of edges)
-  drawNodes(ctx, root, highlightNodes);
+  drawThreads(ctx, root, threads);
+  drawNodes(ctx, root, highlightNodes, invalidNodes);
 
   // Third pass: draw active-node arrow indicator
   if (activeNode !== undefined) {
     const pos = findNodePosition(root, activeNode);
     if (pos) {
-      const hl = highlightNodes.get(activeNode);
-      const arrowColor = hl ? COLORS[hl] : '#ffffff';
-      drawActiveArrow(ctx, pos.x, pos.y, arrowColor);
+      drawActiveArrow(ctx, pos.x, pos.y, arrowColor(highlightNodes.get(activeNode)));
     }
   }
+  ctx.restore();
 }
 
 // ── Recursive edge drawing ─────────────────────────────────────────────────
@@ -149,29 +292,91 @@ export function renderTree(
 function drawEdges(
   ctx: CanvasRenderingContext2D,
   node: PositionedNode,
-  edgeSet: Set<string>,
+  edges: Map<string, EdgeHighlight>,
 ) {
   if (node.left) {
-    const key = `${node.value}-${node.left.value}`;
-    drawEdge(ctx, node.x, node.y, node.left.x, node.left.y, edgeSet.has(key));
-    drawEdges(ctx, node.left, edgeSet);
+    const key = `${node.id}-${node.left.id}`;
+    ctx.globalAlpha = Math.min(node.alpha ?? 1, node.left.alpha ?? 1);
+    drawEdge(ctx, node.x, node.y, node.left.x, node.left.y, edges.get(key));
+    drawEdges(ctx, node.left, edges);
   }
   if (node.right) {
-    const key = `${node.value}-${node.right.value}`;
-    drawEdge(ctx, node.x, node.y, node.right.x, node.right.y, edgeSet.has(key));
-    drawEdges(ctx, node.right, edgeSet);
+    const key = `${node.id}-${node.right.id}`;
+    ctx.globalAlpha = Math.min(node.alpha ?? 1, node.right.alpha ?? 1);
+    drawEdge(ctx, node.x, node.y, node.right.x, node.right.y, edges.get(key));
+    drawEdges(ctx, node.right, edges);
   }
+  ctx.globalAlpha = 1;
 }
 
-// ── Find node position by value ─────────────────────────────────────────────
+// ── Threads (dashed, curving out to the right) ─────────────────────────────
+
+function drawThreads(ctx: CanvasRenderingContext2D, root: PositionedNode, threads: Array<[NodeId, NodeId]>) {
+  ctx.save();
+  ctx.strokeStyle = THREAD_COLOR;
+  ctx.fillStyle = THREAD_COLOR;
+  ctx.lineWidth = 2;
+  for (const [from, to] of threads) {
+    const a = findNodePosition(root, from);
+    const b = findNodePosition(root, to);
+    if (!a || !b) continue;
+
+    // Bulge sideways so the thread does not run along the tree edges
+    const cx = Math.max(a.x, b.x) + NODE_RADIUS * 3;
+    const cy = (a.y + b.y) / 2;
+    ctx.setLineDash([6, 4]);
+    ctx.beginPath();
+    ctx.moveTo(a.x, a.y);
+    ctx.quadraticCurveTo(cx, cy, b.x, b.y);
+    ctx.stroke();
+
+    // Arrowhead where the curve meets the target's circle
+    ctx.setLineDash([]);
+    const angle = Math.atan2(b.y - cy, b.x - cx);
+    const tipX = b.x - Math.cos(angle) * NODE_RADIUS;
+    const tipY = b.y - Math.sin(angle) * NODE_RADIUS;
+    ctx.beginPath();
+    ctx.moveTo(tipX, tipY);
+    ctx.lineTo(tipX - Math.cos(angle - 0.4) * 10, tipY - Math.sin(angle - 0.4) * 10);
+    ctx.lineTo(tipX - Math.cos(angle + 0.4) * 10, tipY - Math.sin(angle + 0.4) * 10);
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.restore();
+}
 
-function findNodePosition(
+// ── Find node position by id ────────────────────────────────────────────────
+
+export function findNodePosition(
   node: PositionedNode | null,
-  value: number,
+  id: NodeId,
 ): { x: number; y: number } | null {
   if (!node) return null;
-  if (node.value === value) return { x: node.x, y: node.y };
-  return findNodePosition(node.left, value) ?? findNodePosition(node.right, value);
+  if (node.id === id) return { x: node.x, y: node.y };
+  return findNodePosition(node.left, id) ?? findNodePosition(node.right, id);
+}
+
+// ── Hit-testing (layout coordinates) ───────────────────────────────────────
+
+/** Id of the node whose circle contains (x, y), if any */
+export function findNodeAt(node: PositionedNode | null, x: number, y: number): NodeId | null {
+  if (!node) return null;
+  if (Math.hypot(node.x - x, node.y - y) <= NODE_RADIUS) return node.id;
+  return findNodeAt(node.left, x, y) ?? findNodeAt(node.right, x, y);
+}
+
+/** Key of the B-tree cell containing (x, y), if any */
+export function findBKeyAt(node: PositionedBTreeNode | null, x: number, y: number): number | null {
+  if (!node) return null;
+  const left = node.x - node.width / 2;
+  if (x >= left && x < left + node.width && Math.abs(y - node.y) <= BNODE_HEIGHT / 2) {
+    return node.keys[Math.floor((x - left) / KEY_WIDTH)] ?? null;
+  }
+  for (const child of node.children) {
+    const hit = findBKeyAt(child, x, y);
+    if (hit !== null) return hit;
+  }
+  return null;
 }
 
 // ── Recursive node drawing ─────────────────────────────────────────────────
@@ -179,9 +384,148 @@ function findNodePosition(
 function drawNodes(
   ctx: CanvasRenderingContext2D,
   node: PositionedNode,
+  highlightNodes: Map<NodeId, HighlightType>,
+  invalidNodes: Set<NodeId>,
+) {
+  if (node.left) drawNodes(ctx, node.left, highlightNodes, invalidNodes);
+  if (node.right) drawNodes(ctx, node.right, highlightNodes, invalidNodes);
+  ctx.globalAlpha = node.alpha ?? 1;
+  drawNode(ctx, node.x, node.y, node.value, highlightNodes.get(node.id) ?? null, node.color, node.priority, node.count);
+  if (invalidNodes.has(node.id)) drawInvalidMark(ctx, node.x, node.y);
+  ctx.globalAlpha = 1;
+}
+
+function drawInvalidMark(ctx: CanvasRenderingContext2D, x: number, y: number) {
+  ctx.beginPath();
+  ctx.arc(x, y, NODE_RADIUS + 5, 0, Math.PI * 2);
+  ctx.strokeStyle = INVALID_COLOR;
+  ctx.lineWidth = 3;
+  ctx.stroke();
+}
+
+// ── Drag ghost (edit mode) ─────────────────────────────────────────────────
+
+/**
+ * A node being dragged, drawn under the pointer at (x, y). When it is over
+ * a drop target a dashed edge shows where it would be attached.
+ */
+export function drawDragGhost(
+  ctx: CanvasRenderingContext2D,
+  ghost: { x: number; y: number; value: number },
+  target: { x: number; y: number } | null,
+  camera?: Camera,
+) {
+  ctx.save();
+  applyCamera(ctx, camera);
+  if (target) {
+    ctx.setLineDash([6, 4]);
+    drawEdge(ctx, target.x, target.y, ghost.x, ghost.y, 'path');
+    ctx.setLineDash([]);
+  }
+  ctx.globalAlpha = 0.75;
+  drawNode(ctx, ghost.x, ghost.y, ghost.value, 'selected');
+  ctx.restore();
+}
+
+// ── B-tree rendering ───────────────────────────────────────────────────────
+//
+// Multi-key nodes are boxes of KEY_WIDTH cells. Highlights apply per key;
+// edges and the active arrow identify a node by its first key.
+
+function drawBNode(
+  ctx: CanvasRenderingContext2D,
+  node: PositionedBTreeNode,
+  highlightNodes: Map<number, HighlightType>,
+) {
+  const left = node.x - node.width / 2;
+  const top = node.y - BNODE_HEIGHT / 2;
+
+  node.keys.forEach((key, i) => {
+    const hl = highlightNodes.get(key);
+    ctx.fillStyle = hl ? COLORS[hl] : NODE_FILL;
+    ctx.fillRect(left + i * KEY_WIDTH, top, KEY_WIDTH, BNODE_HEIGHT);
+
+    ctx.fillStyle = hl ? '#000000' : NODE_TEXT;
+    ctx.font = VALUE_FONT;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(String(key), left + (i + 0.5) * KEY_WIDTH, node.y);
+  });
+
+  // Outline and cell dividers
+  ctx.strokeStyle = NODE_STROKE;
+  ctx.lineWidth = 2;
+  ctx.strokeRect(left, top, node.width, BNODE_HEIGHT);
+  ctx.lineWidth = 1;
+  for (let i = 1; i < node.keys.length; i++) {
+    ctx.beginPath();
+    ctx.moveTo(left + i * KEY_WIDTH, top);
+    ctx.lineTo(left + i * KEY_WIDTH, top + BNODE_HEIGHT);
+    ctx.stroke();
+  }
+}
+
+/** x where the edge to child `i` leaves a B-tree node (the gap between keys i-1 and i) */
+export function bEdgeStartX(node: PositionedBTreeNode, i: number): number {
+  const left = node.x - node.width / 2;
+  return node.keys.length > 0 ? left + i * (node.width / node.keys.length) : node.x;
+}
+
+function drawBTreeEdges(
+  ctx: CanvasRenderingContext2D,
+  node: PositionedBTreeNode,
+  edges: Map<string, EdgeHighlight>,
+) {
+  const bottom = node.y + BNODE_HEIGHT / 2;
+  node.children.forEach((child, i) => {
+    // Each child hangs from the gap between keys i-1 and i
+    const key = `${node.keys[0]}-${child.keys[0]}`;
+    drawEdge(ctx, bEdgeStartX(node, i), bottom, child.x, child.y - BNODE_HEIGHT / 2, edges.get(key));
+    drawBTreeEdges(ctx, child, edges);
+  });
+}
+
+function drawBTreeNodes(
+  ctx: CanvasRenderingContext2D,
+  node: PositionedBTreeNode,
+  highlightNodes: Map<number, HighlightType>,
+) {
+  node.children.forEach((child) => drawBTreeNodes(ctx, child, highlightNodes));
+  drawBNode(ctx, node, highlightNodes);
+}
+
+export function findBNodeWithKey(node: PositionedBTreeNode, key: number): PositionedBTreeNode | null {
+  if (node.keys.includes(key)) return node;
+  for (const child of node.children) {
+    const hit = findBNodeWithKey(child, key);
+    if (hit) return hit;
+  }
+  return null;
+}
+
+export function renderBTree(
+  ctx: CanvasRenderingContext2D,
+  root: PositionedBTreeNode | null,
+  width: number,
+  height: number,
   highlightNodes: Map<number, HighlightType>,
+  highlightEdges: HighlightEdge[],
+  meta: { nodeCount: number; treeHeight: number },
+  activeNode?: number,
+  camera?: Camera,
 ) {
-  if (node.left) drawNodes(ctx, node.left, highlightNodes);
-  if (node.right) drawNodes(ctx, node.right, highlightNodes);
-  drawNode(ctx, node.x, node.y, node.value, highlightNodes.get(node.value) ?? null);
+  if (!drawBackground(ctx, root !== null, width, height, meta) || !root) return;
+
+  ctx.save();
+  applyCamera(ctx, camera);
+  drawBTreeEdges(ctx, root, edgeHighlights(highlightEdges));
+  drawBTreeNodes(ctx, root, highlightNodes);
+
+  if (activeNode !== undefined) {
+    const node = findBNodeWithKey(root, activeNode);
+    if (node) {
+      drawActiveArrow(ctx, node.x, node.y, arrowColor(highlightNodes.get(activeNode)), BNODE_HEIGHT / 2);
+    }
+  }
+  ctx.restore();
 }
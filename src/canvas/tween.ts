@@ -0,0 +1,72 @@
+import type { PositionedNode, NodeId } from '../types';
+
+/**
+ * Interpolation between two laid-out trees.
+ *
+ * Nodes are matched across layouts by id: a node present in both glides
+ * from its old coordinates to its new ones, a new node fades in at its
+ * target position and a vanished node fades out where it last stood.
+ */
+
+/** Every node currently on screen, keyed by id. */
+export type PositionMap = Map<NodeId, PositionedNode>;
+
+/** Below this opacity a fading node is dropped entirely. */
+const MIN_ALPHA = 0.01;
+
+export function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+/** Flatten a positioned tree into an id → node map. */
+export function collectPositions(node: PositionedNode | null, out: PositionMap = new Map()): PositionMap {
+  if (!node) return out;
+  out.set(node.id, node);
+  collectPositions(node.left, out);
+  collectPositions(node.right, out);
+  return out;
+}
+
+function interpolateNode(
+  node: PositionedNode | null,
+  from: PositionMap,
+  t: number,
+): PositionedNode | null {
+  if (!node) return null;
+
+  const prev = from.get(node.id);
+  return {
+    ...node,
+    x: prev ? lerp(prev.x, node.x, t) : node.x,
+    y: prev ? lerp(prev.y, node.y, t) : node.y,
+    // Fresh nodes fade in; half-faded ones carry on from where they were
+    alpha: lerp(prev ? (prev.alpha ?? 1) : 0, 1, t),
+    left: interpolateNode(node.left, from, t),
+    right: interpolateNode(node.right, from, t),
+  };
+}
+
+/**
+ * Blend `from` (what is on screen) towards `target` at progress `t` in
+ * [0, 1]. Returns the frame to draw plus the nodes that are fading out.
+ */
+export function interpolateLayout(
+  target: PositionedNode | null,
+  from: PositionMap,
+  t: number,
+): { root: PositionedNode | null; fading: PositionedNode[] } {
+  const root = interpolateNode(target, from, t);
+  const present = collectPositions(target);
+
+  const fading: PositionedNode[] = [];
+  for (const [id, prev] of from) {
+    if (present.has(id)) continue;
+    const alpha = (prev.alpha ?? 1) * (1 - t);
+    if (alpha > MIN_ALPHA) fading.push({ ...prev, left: null, right: null, alpha });
+  }
+  return { root, fading };
+}
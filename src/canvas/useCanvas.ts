@@ -1,14 +1,74 @@
 import { useRef, useEffect, useCallback } from 'react';
-import type { TreeNode, AnimationStep, HighlightType } from '../types';
-import { layoutTree } from '../core/layout';
+import type {
+  TreeNode,
+  BTreeNode,
+  AnimationStep,
+  HighlightType,
+  HighlightEdge,
+  NodeId,
+  PositionedNode,
+  PositionedBTreeNode,
+} from '../types';
+import { layoutTree, layoutBTree } from '../core/layout';
 import { countNodes, treeHeight } from '../core/bst';
-import { renderTree } from './renderer';
+import type { ChildSide } from '../core/editor';
+import { countKeys, bTreeHeight } from '../core/btree';
+import {
+  renderTree,
+  renderBTree,
+  drawDragGhost,
+  findNodePosition,
+  findBNodeWithKey,
+  findNodeAt,
+  findBKeyAt,
+} from './renderer';
+import type { PositionMap } from './tween';
+import { interpolateLayout, collectPositions, easeInOutCubic } from './tween';
+import type { Camera } from './camera';
+import {
+  IDENTITY_CAMERA,
+  panBy,
+  zoomAt,
+  approachCamera,
+  sameCamera,
+  screenToWorld,
+  fitCamera,
+  followPoint,
+  treeBounds,
+  bTreeBounds,
+} from './camera';
+
+/** Delay between animation steps at 1x speed (ms). */
+export const BASE_STEP_DELAY = 600;
+
+/** Pointer travel (px) before a press turns into a drag */
+const DRAG_THRESHOLD = 4;
+/** Fraction of the remaining distance the camera covers per frame when easing */
+const CAMERA_EASE = 0.2;
+/** Zoom factor of the toolbar buttons */
+const ZOOM_STEP = 1.25;
 
 interface UseCanvasOptions {
   tree: TreeNode | null;
-  highlightNodes: Map<number, HighlightType>;
-  highlightEdges: Array<[number, number]>;
-  activeNode?: number;
+  /** When defined, the B-tree is drawn instead of `tree` */
+  bTree?: BTreeNode | null;
+  highlightNodes: Map<NodeId, HighlightType>;
+  highlightEdges: HighlightEdge[];
+  activeNode?: NodeId;
+  /** How long nodes take to glide to a new layout (ms); 0 jumps instantly */
+  transitionMs?: number;
+  /** Click (not drag) on the canvas: the node id (B-tree key) under the pointer, or null */
+  onNodeClick?: (id: NodeId | null, at: { x: number; y: number }) => void;
+  /**
+   * When set, dragging a node (instead of the background) moves it: on
+   * release this gets the dragged node's id, the node it was dropped on (or
+   * null) and which side of that node the pointer was on.
+   */
+  onNodeDrop?: (id: NodeId, target: NodeId | null, side: ChildSide) => void;
+  /** Nodes drawn with a red warning ring */
+  invalidNodes?: Set<NodeId>;
+  /** Temporary links drawn dashed, as [from, to] ids */
+  threads?: Array<[NodeId, NodeId]>;
 }
 
 /**
@@ -16,17 +76,67 @@ interface UseCanvasOptions {
  *
  * Returns a ref to attach to a <canvas> element and a `redraw` function
  * that can be called imperatively (e.g. on window resize).
+ *
+ * Whenever `tree` changes, nodes tween from where they are on screen to the
+ * new layout over `transitionMs`, keeping one frame loop running until done.
+ *
+ * The view has a camera: the wheel (or a pinch) zooms, dragging pans. Until
+ * the user moves it the camera keeps the whole tree in view; `fitToView`
+ * returns to that. During playback it follows the active node.
+ *
+ * With `onNodeDrop` set (edit mode), dragging a node moves a ghost of it
+ * instead of panning; dragging the background still pans.
  */
-export function useCanvas({ tree, highlightNodes, highlightEdges, activeNode }: UseCanvasOptions) {
+export function useCanvas({
+  tree,
+  bTree,
+  highlightNodes,
+  highlightEdges,
+  activeNode,
+  transitionMs = 0,
+  onNodeClick,
+  onNodeDrop,
+  invalidNodes,
+  threads,
+}: UseCanvasOptions) {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const rafId = useRef<number>(0);
+  const displayed = useRef<PositionMap>(new Map());
+  const tween = useRef<{ from: PositionMap; start: number } | null>(null);
+
+  // Camera on screen, the one it is easing towards and whether it auto-fits
+  const camera = useRef<Camera>(IDENTITY_CAMERA);
+  const cameraTarget = useRef<Camera>(IDENTITY_CAMERA);
+  const autoFit = useRef(true);
+  const followPending = useRef(false);
+
+  // What was last drawn, in layout coordinates, for hit-testing
+  const drawn = useRef<{ root: PositionedNode | null; bRoot: PositionedBTreeNode | null }>({ root: null, bRoot: null });
+  const handlers = useRef({ onNodeClick, onNodeDrop });
+  useEffect(() => {
+    handlers.current = { onNodeClick, onNodeDrop };
+  }, [onNodeClick, onNodeDrop]);
 
-  const draw = useCallback(() => {
+  // Node being dragged in edit mode, at the pointer's layout coordinates
+  const nodeDrag = useRef<{ id: NodeId; value: number; x: number; y: number } | null>(null);
+
+  // Start a transition from whatever is currently on screen
+  useEffect(() => {
+    tween.current = { from: new Map(displayed.current), start: performance.now() };
+  }, [tree]);
+
+  // Bring each newly active node into view
+  useEffect(() => {
+    followPending.current = activeNode !== undefined;
+  }, [activeNode]);
+
+  /** Draw one frame; returns true while a transition still needs frames. */
+  const draw = useCallback((): boolean => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (!canvas) return false;
 
     const parent = canvas.parentElement;
-    if (!parent) return;
+    if (!parent) return false;
 
     // Resize canvas to fill its container (CSS pixels → device pixels for sharpness)
     const dpr = window.devicePixelRatio || 1;
@@ -39,41 +149,240 @@ export function useCanvas({ tree, highlightNodes, highlightEdges, activeNode }:
     canvas.style.height = `${h}px`;
 
     const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    if (!ctx) return false;
     ctx.scale(dpr, dpr);
 
-    const positioned = layoutTree(tree, w);
+    // Aim the camera at the destination layout, then ease towards it
+    const positioned = bTree !== undefined ? null : layoutTree(tree, w);
+    const bPositioned = bTree !== undefined ? layoutBTree(bTree, w) : null;
+
+    if (autoFit.current) {
+      cameraTarget.current = fitCamera(bTree !== undefined ? bTreeBounds(bPositioned) : treeBounds(positioned), w, h);
+    } else if (followPending.current && activeNode !== undefined) {
+      const pos = bTree !== undefined
+        ? bPositioned && findBNodeWithKey(bPositioned, activeNode)
+        : findNodePosition(positioned, activeNode);
+      if (pos) cameraTarget.current = followPoint(cameraTarget.current, pos.x, pos.y, w, h);
+    }
+    followPending.current = false;
+    camera.current = approachCamera(camera.current, cameraTarget.current, CAMERA_EASE);
+    const cameraMoving = !sameCamera(camera.current, cameraTarget.current);
+
+    if (bTree !== undefined) {
+      const meta = {
+        nodeCount: countKeys(bTree),
+        treeHeight: bTreeHeight(bTree),
+      };
+      drawn.current = { root: null, bRoot: bPositioned };
+      renderBTree(ctx, bPositioned, w, h, highlightNodes, highlightEdges, meta, activeNode, camera.current);
+      return cameraMoving;
+    }
+
     const meta = {
       nodeCount: countNodes(tree),
       treeHeight: treeHeight(tree),
     };
 
-    renderTree(ctx, positioned, w, h, highlightNodes, highlightEdges, meta, activeNode);
-  }, [tree, highlightNodes, highlightEdges, activeNode]);
+    const from = tween.current?.from ?? new Map();
+    const elapsed = tween.current ? performance.now() - tween.current.start : Infinity;
+    const t = transitionMs > 0 ? Math.min(1, elapsed / transitionMs) : 1;
+    const frame = interpolateLayout(positioned, from, easeInOutCubic(t));
+
+    const onScreen = collectPositions(frame.root);
+    for (const node of frame.fading) onScreen.set(node.id, node);
+    displayed.current = onScreen;
+    drawn.current = { root: frame.root, bRoot: null };
+
+    renderTree(ctx, frame.root, w, h, highlightNodes, highlightEdges, meta, activeNode, frame.fading, camera.current, invalidNodes, threads);
+
+    const ghost = nodeDrag.current;
+    if (ghost) {
+      const over = findNodeAt(frame.root, ghost.x, ghost.y);
+      const target = over !== null && over !== ghost.id ? findNodePosition(frame.root, over) : null;
+      drawDragGhost(ctx, ghost, target, camera.current);
+    }
+
+    if (t >= 1) tween.current = null;
+    return t < 1 || cameraMoving;
+  }, [tree, bTree, highlightNodes, highlightEdges, activeNode, transitionMs, invalidNodes, threads]);
+
+  /** (Re)start the frame loop, which runs while anything is still moving */
+  const schedule = useCallback(() => {
+    const tick = () => {
+      if (draw()) rafId.current = requestAnimationFrame(tick);
+    };
+    cancelAnimationFrame(rafId.current);
+    rafId.current = requestAnimationFrame(tick);
+  }, [draw]);
 
   // Redraw whenever inputs change
   useEffect(() => {
-    rafId.current = requestAnimationFrame(draw);
+    schedule();
     return () => cancelAnimationFrame(rafId.current);
-  }, [draw]);
+  }, [schedule]);
 
   // Redraw on window resize
   useEffect(() => {
-    const onResize = () => {
-      cancelAnimationFrame(rafId.current);
-      rafId.current = requestAnimationFrame(draw);
+    window.addEventListener('resize', schedule);
+    return () => window.removeEventListener('resize', schedule);
+  }, [schedule]);
+
+  // ── Camera controls ──────────────────────────────────────────────────────
+
+  /** Jump the camera (user input); this ends auto-fitting */
+  const moveCamera = useCallback(
+    (next: Camera) => {
+      camera.current = next;
+      cameraTarget.current = next;
+      autoFit.current = false;
+      schedule();
+    },
+    [schedule],
+  );
+
+  const fitToView = useCallback(() => {
+    autoFit.current = true;
+    schedule();
+  }, [schedule]);
+
+  /** Zoom about the centre of the view */
+  const zoomBy = useCallback(
+    (factor: number) => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      moveCamera(zoomAt(cameraTarget.current, canvas.clientWidth / 2, canvas.clientHeight / 2, factor));
+    },
+    [moveCamera],
+  );
+
+  const zoomIn = useCallback(() => zoomBy(ZOOM_STEP), [zoomBy]);
+  const zoomOut = useCallback(() => zoomBy(1 / ZOOM_STEP), [zoomBy]);
+
+  // Wheel / trackpad pinch to zoom, drag to pan, two-finger pinch on touch
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const pointers = new Map<number, { x: number; y: number }>();
+    let pressedAt: { x: number; y: number } | null = null;
+    let dragging = false;
+    // Id of the node pressed on when node dragging is enabled
+    let pressedNode: NodeId | null = null;
+
+    const local = (e: MouseEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const p = local(e);
+      // Trackpad pinches arrive as ctrl+wheel with small deltas
+      const factor = Math.exp(-e.deltaY * (e.ctrlKey ? 0.01 : 0.0015));
+      moveCamera(zoomAt(camera.current, p.x, p.y, factor));
+    };
+
+    const onPointerDown = (e: PointerEvent) => {
+      canvas.setPointerCapture(e.pointerId);
+      pointers.set(e.pointerId, local(e));
+      if (pointers.size === 1) {
+        pressedAt = local(e);
+        dragging = false;
+        pressedNode = null;
+        if (handlers.current.onNodeDrop && drawn.current.root) {
+          const world = screenToWorld(camera.current, pressedAt.x, pressedAt.y);
+          pressedNode = findNodeAt(drawn.current.root, world.x, world.y);
+        }
+      }
     };
-    window.addEventListener('resize', onResize);
-    return () => window.removeEventListener('resize', onResize);
-  }, [draw]);
 
-  return { canvasRef, redraw: draw };
+    const onPointerMove = (e: PointerEvent) => {
+      const prev = pointers.get(e.pointerId);
+      if (!prev) return;
+      const p = local(e);
+
+      if (pointers.size === 1) {
+        if (!dragging && pressedAt && Math.hypot(p.x - pressedAt.x, p.y - pressedAt.y) < DRAG_THRESHOLD) return;
+        dragging = true;
+        canvas.classList.add('canvas--dragging');
+        if (pressedNode !== null) {
+          const value = nodeDrag.current?.value ?? collectPositions(drawn.current.root).get(pressedNode)!.value;
+          nodeDrag.current = { id: pressedNode, value, ...screenToWorld(camera.current, p.x, p.y) };
+          schedule();
+        } else {
+          moveCamera(panBy(camera.current, p.x - prev.x, p.y - prev.y));
+        }
+      } else if (pointers.size === 2) {
+        // A second finger turns a node drag into a pinch
+        pressedNode = null;
+        nodeDrag.current = null;
+        // Pinch: scale by the change in finger distance about their midpoint
+        const other = [...pointers.entries()].find(([id]) => id !== e.pointerId)![1];
+        const before = Math.hypot(prev.x - other.x, prev.y - other.y);
+        const after = Math.hypot(p.x - other.x, p.y - other.y);
+        const mid = { x: (p.x + other.x) / 2, y: (p.y + other.y) / 2 };
+        const prevMid = { x: (prev.x + other.x) / 2, y: (prev.y + other.y) / 2 };
+        dragging = true;
+        if (before > 0) {
+          moveCamera(panBy(zoomAt(camera.current, mid.x, mid.y, after / before), mid.x - prevMid.x, mid.y - prevMid.y));
+        }
+      }
+      pointers.set(e.pointerId, p);
+    };
+
+    const onPointerUp = (e: PointerEvent) => {
+      const released = e.type === 'pointerup' && pointers.size === 1 && pointers.has(e.pointerId);
+      const p = local(e);
+      const world = screenToWorld(camera.current, p.x, p.y);
+
+      if (released && !dragging) {
+        // A press that never became a drag is a click: hit-test through the camera
+        const hit = drawn.current.bRoot
+          ? findBKeyAt(drawn.current.bRoot, world.x, world.y)
+          : findNodeAt(drawn.current.root, world.x, world.y);
+        handlers.current.onNodeClick?.(hit, p);
+      } else if (released && nodeDrag.current) {
+        const { id } = nodeDrag.current;
+        const over = findNodeAt(drawn.current.root, world.x, world.y);
+        const target = over === id ? null : over;
+        const pos = target !== null ? findNodePosition(drawn.current.root, target) : null;
+        handlers.current.onNodeDrop?.(id, target, pos && world.x >= pos.x ? 'right' : 'left');
+      }
+      if (nodeDrag.current) {
+        nodeDrag.current = null;
+        schedule();
+      }
+
+      pointers.delete(e.pointerId);
+      if (pointers.size === 0) {
+        pressedAt = null;
+        pressedNode = null;
+        canvas.classList.remove('canvas--dragging');
+      }
+    };
+
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    canvas.addEventListener('pointerdown', onPointerDown);
+    canvas.addEventListener('pointermove', onPointerMove);
+    canvas.addEventListener('pointerup', onPointerUp);
+    canvas.addEventListener('pointercancel', onPointerUp);
+    return () => {
+      canvas.removeEventListener('wheel', onWheel);
+      canvas.removeEventListener('pointerdown', onPointerDown);
+      canvas.removeEventListener('pointermove', onPointerMove);
+      canvas.removeEventListener('pointerup', onPointerUp);
+      canvas.removeEventListener('pointercancel', onPointerUp);
+    };
+  }, [moveCamera, schedule]);
+
+  return { canvasRef, redraw: draw, fitToView, zoomIn, zoomOut };
 }
 
 // ── Playback controller ────────────────────────────────────────────────────
 
 interface PlaybackCallbacks {
-  onStep: (step: AnimationStep) => void;
+  /** `index` is the position of `step` in the step list */
+  onStep: (step: AnimationStep, index: number) => void;
   onComplete: () => void;
 }
 
@@ -86,11 +395,11 @@ export function createPlayback(steps: AnimationStep[], callbacks: PlaybackCallba
   let timerId: ReturnType<typeof setTimeout> | null = null;
   let speed = 1; // multiplier
 
-  const baseDelay = 600; // ms per step at 1x speed
+  const baseDelay = BASE_STEP_DELAY; // ms per step at 1x speed
 
   function emitCurrent() {
     if (index >= 0 && index < steps.length) {
-      callbacks.onStep(steps[index]);
+      callbacks.onStep(steps[index], index);
     }
   }
 
@@ -151,6 +460,14 @@ export function createPlayback(steps: AnimationStep[], callbacks: PlaybackCallba
     index = steps.length;
   }
 
+  /** Show step `target` (0-based), paused */
+  function goTo(target: number) {
+    stop();
+    index = Math.max(0, Math.min(target, steps.length - 1));
+    emitCurrent();
+    index++;
+  }
+
   function setSpeed(s: number) {
     speed = s;
   }
@@ -174,6 +491,7 @@ export function createPlayback(steps: AnimationStep[], callbacks: PlaybackCallba
     stepBackward,
     goToStart,
     goToEnd,
+    goTo,
     setSpeed,
     getIndex,
     getTotal,
@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
-import type { OperationType } from '../types';
+import type { OperationType, TreeKind, TraversalStyle, CallFrame, DuplicatePolicy } from '../types';
 import { getPseudocode } from '../core/pseudocode';
+import { TRAVERSAL_STYLES, stylesFor, isDepthFirstOp, resolveStyle } from '../core/traversals';
 
 interface StepLogEntry {
   index: number;
@@ -9,23 +10,40 @@ interface StepLogEntry {
 
 interface AlgorithmPanelProps {
   /** Current operation being animated (null if idle) */
-  activeOperation: { op: OperationType; value?: number } | null;
+  activeOperation: {
+    op: OperationType;
+    value?: number;
+    value2?: number;
+    kind?: TreeKind;
+    duplicates?: DuplicatePolicy;
+  } | null;
   /** Current step description */
   description: string;
   /** Active pseudocode line index */
   activeLine?: number;
+  /** Recursive calls in progress at the current step, outermost first */
+  callStack?: CallFrame[];
+  /** Watched variables at the current step, and which of them the step changed */
+  watch?: { variables: Map<string, number | null>; changed: string[] };
   /** Whether the panel should be open */
   isAnimating: boolean;
   /** Accumulated step log */
   stepLog: StepLogEntry[];
+  /** How depth-first traversals run; picking another style reruns the traversal */
+  traversalStyle: TraversalStyle;
+  onTraversalStyleChange: (style: TraversalStyle) => void;
 }
 
 export default function AlgorithmPanel({
   activeOperation,
   description,
   activeLine,
+  callStack,
+  watch,
   isAnimating,
   stepLog,
+  traversalStyle,
+  onTraversalStyleChange,
 }: AlgorithmPanelProps) {
   const [collapsed, setCollapsed] = useState(false);
   const logEndRef = useRef<HTMLDivElement>(null);
@@ -40,11 +58,15 @@ export default function AlgorithmPanel({
     logEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [stepLog.length]);
 
-  const pseudocode = activeOperation ? getPseudocode(activeOperation.op) : null;
+  const op = activeOperation?.op;
+  const style = op && isDepthFirstOp(op) ? resolveStyle(op, traversalStyle) : undefined;
+  const styles = op ? stylesFor(op) : [];
+  const pseudocode = activeOperation ? getPseudocode(activeOperation.op, activeOperation.kind, style, activeOperation.duplicates) : null;
 
+  const args = [activeOperation?.value, activeOperation?.value2].filter((v) => v !== undefined);
   const operationLabel = activeOperation
-    ? activeOperation.value !== undefined
-      ? `${pseudocode?.title ?? activeOperation.op}(${activeOperation.value})`
+    ? args.length > 0
+      ? `${pseudocode?.title ?? activeOperation.op}(${args.join(', ')})`
       : (pseudocode?.title ?? activeOperation.op)
     : null;
 
@@ -54,7 +76,8 @@ export default function AlgorithmPanel({
                      description.toLowerCase().includes('inserted') ||
                      description.toLowerCase().includes('result');
   const isError = description.toLowerCase().includes('not found') ||
-                  description.toLowerCase().includes('out of range');
+                  description.toLowerCase().includes('out of range') ||
+                  description.toLowerCase().includes('could not');
 
   return (
     <aside className={`algo-panel ${collapsed ? 'algo-panel--collapsed' : ''}`}>
@@ -74,6 +97,21 @@ export default function AlgorithmPanel({
             <div className="algo-panel-header">{operationLabel}</div>
           )}
 
+          {/* ── Recursive / iterative / Morris toggle ── */}
+          {styles.length > 0 && (
+            <div className="algo-panel-styles">
+              {TRAVERSAL_STYLES.filter((s) => styles.includes(s.style)).map((s) => (
+                <button
+                  key={s.style}
+                  className={`algo-panel-style ${s.style === style ? 'algo-panel-style--active' : ''}`}
+                  onClick={() => onTraversalStyleChange(s.style)}
+                >
+                  {s.label}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* ── Status banner ───────────────────────── */}
           {description && (
             <div
@@ -99,6 +137,45 @@ export default function AlgorithmPanel({
             </div>
           )}
 
+          {/* ── Watch table ─────────────────────────── */}
+          {watch && watch.variables.size > 0 && (
+            <table className="algo-panel-watch">
+              <tbody>
+                {[...watch.variables].map(([name, value]) => (
+                  // A new key remounts the row, replaying the flash on every change
+                  <tr
+                    key={`${name}=${value}`}
+                    className={watch.changed.includes(name) ? 'algo-watch-row--changed' : ''}
+                  >
+                    <td className="algo-watch-name">{name}</td>
+                    <td className="algo-watch-value">{value ?? 'null'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {/* ── Call stack (innermost call on top) ─── */}
+          {callStack && callStack.length > 0 && (
+            <div className="algo-panel-stack">
+              <div className="algo-panel-stack-header">Call Stack ({callStack.length})</div>
+              {callStack
+                .map((frame, depth) => (
+                  // Keyed by depth so a new call slides in and a returning one drops out
+                  <div
+                    key={depth}
+                    className={`algo-stack-frame ${depth === callStack.length - 1 ? 'algo-stack-frame--top' : ''}`}
+                  >
+                    <span>
+                      {frame.fn}({frame.node ?? 'null'})
+                    </span>
+                    <span className="algo-stack-line">line {frame.line + 1}</span>
+                  </div>
+                ))
+                .reverse()}
+            </div>
+          )}
+
           {/* ── Step log (accordion) ────────────────── */}
           {stepLog.length > 0 && (
             <details className="algo-panel-log" open>
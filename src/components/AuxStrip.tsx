@@ -0,0 +1,50 @@
+import type { AuxState } from '../types';
+
+interface AuxStripProps {
+  aux: AuxState;
+}
+
+const LABELS: Record<AuxState['kind'], { title: string; first: string; last: string }> = {
+  queue: { title: 'Queue', first: 'front', last: 'back' },
+  stack: { title: 'Stack', first: 'bottom', last: 'top' },
+  array: { title: 'Array', first: '', last: '' },
+};
+
+/** Pointer names shown under index `i` of an array window, e.g. "lo mid" */
+function pointerLabel(span: NonNullable<AuxState['window']>, i: number): string {
+  const names: string[] = [];
+  if (i === span.lo) names.push('lo');
+  if (i === span.mid) names.push('mid');
+  if (i === span.hi) names.push('hi');
+  return names.join(' ');
+}
+
+/** Strip under the canvas showing the helper structure of the current step */
+export default function AuxStrip({ aux }: AuxStripProps) {
+  const { title, first, last } = LABELS[aux.kind];
+  const span = aux.window;
+
+  function itemClass(value: number, i: number): string {
+    let className = 'aux-strip-item';
+    if (aux.marked?.includes(value)) className += ' aux-strip-item--marked';
+    if (span && (i < span.lo || i > span.hi)) className += ' aux-strip-item--outside';
+    return className;
+  }
+
+  return (
+    <div className={`aux-strip${aux.kind === 'array' ? ' aux-strip--array' : ''}`}>
+      <span className="aux-strip-title">{title}</span>
+      {first && <span className="aux-strip-end">{first}</span>}
+      <div className="aux-strip-items">
+        {aux.items.length === 0 && <span className="aux-strip-empty">empty</span>}
+        {aux.items.map((value, i) => (
+          <span key={`${i}-${value}`} className={itemClass(value, i)}>
+            {value}
+            {span && <span className="aux-strip-pointer">{pointerLabel(span, i)}</span>}
+          </span>
+        ))}
+      </div>
+      {last && <span className="aux-strip-end">{last}</span>}
+    </div>
+  );
+}
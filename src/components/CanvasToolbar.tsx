@@ -0,0 +1,68 @@
+interface CanvasToolbarProps {
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onFitToView: () => void;
+  onExportPNG: () => void;
+  onExportSVG: () => void;
+  onExportGIF: () => void;
+  onExportWebM: () => void;
+  /** Whether there is an operation to export as a clip */
+  canExportAnimation: boolean;
+  canExportWebM: boolean;
+  /** Progress label while a clip is being exported */
+  exportProgress: string | null;
+}
+
+/** Small overlay in the corner of the canvas */
+export default function CanvasToolbar({
+  onZoomIn,
+  onZoomOut,
+  onFitToView,
+  onExportPNG,
+  onExportSVG,
+  onExportGIF,
+  onExportWebM,
+  canExportAnimation,
+  canExportWebM,
+  exportProgress,
+}: CanvasToolbarProps) {
+  const busy = exportProgress !== null;
+
+  return (
+    <div className="canvas-toolbar">
+      <button className="canvas-toolbar-btn" onClick={onZoomOut} title="Zoom out (or scroll)">
+        −
+      </button>
+      <button className="canvas-toolbar-btn" onClick={onZoomIn} title="Zoom in (or scroll)">
+        +
+      </button>
+      <button className="canvas-toolbar-btn" onClick={onFitToView} title="Fit the whole tree in view">
+        Fit
+      </button>
+      <span className="canvas-toolbar-divider" />
+      {busy && <span className="canvas-toolbar-status">{exportProgress}</span>}
+      <button className="canvas-toolbar-btn" onClick={onExportPNG} disabled={busy} title="Save the current frame as PNG">
+        PNG
+      </button>
+      <button className="canvas-toolbar-btn" onClick={onExportSVG} disabled={busy} title="Save the current frame as SVG">
+        SVG
+      </button>
+      <button
+        className="canvas-toolbar-btn"
+        onClick={onExportGIF}
+        disabled={busy || !canExportAnimation}
+        title="Save every step of the last operation as an animated GIF"
+      >
+        GIF
+      </button>
+      <button
+        className="canvas-toolbar-btn"
+        onClick={onExportWebM}
+        disabled={busy || !canExportAnimation || !canExportWebM}
+        title={canExportWebM ? 'Record every step of the last operation as WebM' : 'WebM recording is not supported in this browser'}
+      >
+        WebM
+      </button>
+    </div>
+  );
+}
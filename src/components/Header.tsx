@@ -1,13 +1,15 @@
 interface HeaderProps {
   description: string;
+  /** Name of the active tree variant, e.g. "AVL Tree" */
+  title?: string;
 }
 
-export default function Header({ description }: HeaderProps) {
+export default function Header({ description, title = 'Binary Search Tree' }: HeaderProps) {
   return (
     <header className="header">
       <div className="header-left">
         <span className="header-brand">BST</span>
-        <span className="header-title">BINARY SEARCH TREE</span>
+        <span className="header-title">{title.toUpperCase()}</span>
       </div>
       <div className="header-center">
         <span className="header-description">{description}</span>
@@ -0,0 +1,41 @@
+import type { History } from '../core/history';
+import { canUndo, canRedo, describeEntry } from '../core/history';
+
+interface HistoryPanelProps {
+  history: History;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+export default function HistoryPanel({ history, onUndo, onRedo, onJump }: HistoryPanelProps) {
+  return (
+    <div className="history-panel">
+      <div className="history-header">
+        <span>History</span>
+        <div className="history-actions">
+          <button onClick={onUndo} disabled={!canUndo(history)} title="Undo (Ctrl+Z)">
+            ↶
+          </button>
+          <button onClick={onRedo} disabled={!canRedo(history)} title="Redo (Ctrl+Shift+Z)">
+            ↷
+          </button>
+        </div>
+      </div>
+
+      <div className="history-list">
+        {history.entries.map((entry, i) => (
+          <button
+            key={i}
+            className={`history-entry ${i === history.index ? 'history-entry--current' : ''} ${
+              i > history.index ? 'history-entry--undone' : ''
+            }`}
+            onClick={() => onJump(i)}
+          >
+            {describeEntry(entry)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import type { TreeNode, DuplicatePolicy } from '../types';
+import type { TreeFormat } from '../core/formats';
+import { TREE_FORMATS, exportTree, importTree } from '../core/formats';
+import { downloadBlob } from '../canvas/exportImage';
+
+interface ImportExportModalProps {
+  tree: TreeNode | null;
+  /** Keys of the current tree when it has no binary shape (B-tree mode) */
+  keys?: number[];
+  /** How imported keys that repeat are treated (plain BSTs only) */
+  duplicates: DuplicatePolicy;
+  onImport: (values: number[]) => void;
+  onCancel: () => void;
+}
+
+const FILE_EXTENSIONS: Record<TreeFormat, string> = {
+  json: 'json',
+  levelorder: 'json',
+  sequence: 'txt',
+};
+
+export default function ImportExportModal({ tree, keys, duplicates, onImport, onCancel }: ImportExportModalProps) {
+  const [mode, setMode] = useState<'import' | 'export'>('export');
+  // Shape formats need a binary tree; B-trees only export their keys
+  const formats = keys ? TREE_FORMATS.filter((f) => f.format === 'sequence') : TREE_FORMATS;
+  const [format, setFormat] = useState<TreeFormat>(formats[0].format);
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const exported = keys ? keys.join(', ') : exportTree(tree, format);
+  const placeholder = TREE_FORMATS.find((f) => f.format === format)?.placeholder;
+
+  function handleImport(e: React.FormEvent) {
+    e.preventDefault();
+    const result = importTree(input, format, duplicates);
+    if (result.ok) onImport(result.values);
+    else setError(result.error);
+  }
+
+  function handleDownload() {
+    downloadBlob(new Blob([exported], { type: 'text/plain' }), `tree-${format}.${FILE_EXTENSIONS[format]}`);
+  }
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setInput(await file.text());
+    setError(null);
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent) {
+    if (e.key === 'Escape') onCancel();
+  }
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+      <form
+        className="modal modal--wide"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={handleImport}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="modal-tabs">
+          {(['export', 'import'] as const).map((m) => (
+            <button
+              key={m}
+              type="button"
+              className={`modal-tab ${mode === m ? 'modal-tab--active' : ''}`}
+              onClick={() => setMode(m)}
+            >
+              {m === 'export' ? 'Export' : 'Import'}
+            </button>
+          ))}
+        </div>
+
+        <select
+          className="modal-input"
+          value={format}
+          onChange={(e) => {
+            setFormat(e.target.value as TreeFormat);
+            setError(null);
+          }}
+        >
+          {formats.map(({ format: f, label }) => (
+            <option key={f} value={f}>
+              {label}
+            </option>
+          ))}
+        </select>
+
+        {mode === 'export' ? (
+          <textarea className="modal-input modal-textarea" value={exported} readOnly />
+        ) : (
+          <>
+            <textarea
+              className="modal-input modal-textarea"
+              value={input}
+              onChange={(e) => {
+                setInput(e.target.value);
+                setError(null);
+              }}
+              placeholder={placeholder}
+              autoFocus
+            />
+            <input className="modal-file" type="file" accept=".json,.txt" onChange={handleFile} />
+          </>
+        )}
+
+        {error && <div className="modal-error">{error}</div>}
+
+        <div className="modal-actions">
+          <button type="button" className="modal-btn modal-btn-cancel" onClick={onCancel}>
+            Close
+          </button>
+          {mode === 'export' ? (
+            <>
+              <button type="button" className="modal-btn modal-btn-cancel" onClick={handleDownload}>
+                Download
+              </button>
+              <button
+                type="button"
+                className="modal-btn modal-btn-ok"
+                onClick={() => navigator.clipboard.writeText(exported)}
+              >
+                Copy
+              </button>
+            </>
+          ) : (
+            <button type="submit" className="modal-btn modal-btn-ok" disabled={!input.trim()}>
+              Import
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
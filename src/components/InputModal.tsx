@@ -1,19 +1,27 @@
 import { useState, useEffect, useRef } from 'react';
+import { parseKeyList } from '../core/formats';
 
 interface InputModalProps {
   title: string;
   placeholder?: string;
-  onSubmit: (value: number) => void;
+  /** One placeholder per input, for operations that take several numbers */
+  fields?: string[];
+  /** Take a whole list of keys in one text field, passed on as separate arguments */
+  list?: boolean;
+  onSubmit: (...values: number[]) => void;
   onCancel: () => void;
 }
 
 export default function InputModal({
   title,
   placeholder = 'Enter a number…',
+  fields = [placeholder],
+  list = false,
   onSubmit,
   onCancel,
 }: InputModalProps) {
-  const [input, setInput] = useState('');
+  const [inputs, setInputs] = useState(() => fields.map(() => ''));
+  const [error, setError] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -22,9 +30,15 @@ export default function InputModal({
 
   function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
-    const num = parseInt(input, 10);
-    if (!isNaN(num) && num >= 0) {
-      onSubmit(num);
+    if (list) {
+      const result = parseKeyList(inputs[0]);
+      if (result.ok) onSubmit(...result.values);
+      else setError(result.error);
+      return;
+    }
+    const nums = inputs.map((input) => parseInt(input, 10));
+    if (nums.every((num) => !isNaN(num) && num >= 0)) {
+      onSubmit(...nums);
     }
   }
 
@@ -41,16 +55,23 @@ export default function InputModal({
         onKeyDown={handleKeyDown}
       >
         <h3 className="modal-title">{title}</h3>
-        <input
-          ref={inputRef}
-          className="modal-input"
-          type="number"
-          min={0}
-          max={999}
-          value={input}
-          onChange={(e) => setInput(e.target.value)}
-          placeholder={placeholder}
-        />
+        {inputs.map((input, i) => (
+          <input
+            key={i}
+            ref={i === 0 ? inputRef : undefined}
+            className="modal-input"
+            type={list ? 'text' : 'number'}
+            min={list ? undefined : 0}
+            max={list ? undefined : 999}
+            value={input}
+            onChange={(e) => {
+              setInputs(inputs.map((v, j) => (j === i ? e.target.value : v)));
+              setError(null);
+            }}
+            placeholder={fields[i]}
+          />
+        ))}
+        {error && <div className="modal-error">{error}</div>}
         <div className="modal-actions">
           <button type="button" className="modal-btn modal-btn-cancel" onClick={onCancel}>
             Cancel
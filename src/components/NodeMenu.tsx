@@ -0,0 +1,40 @@
+import { useEffect } from 'react';
+
+export interface NodeMenuItem {
+  label: string;
+  onSelect: () => void;
+  disabled?: boolean;
+  /** Tooltip, e.g. why the item is disabled */
+  title?: string;
+}
+
+interface NodeMenuProps {
+  value: number;
+  /** Position inside the canvas container (CSS px) */
+  x: number;
+  y: number;
+  items: NodeMenuItem[];
+  onClose: () => void;
+}
+
+/** Menu of actions for a node picked on the canvas */
+export default function NodeMenu({ value, x, y, items, onClose }: NodeMenuProps) {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="node-menu" style={{ left: x, top: y }} onPointerDown={(e) => e.stopPropagation()}>
+      <div className="node-menu-title">Node {value}</div>
+      {items.map(({ label, onSelect, disabled, title }) => (
+        <button key={label} className="node-menu-item" disabled={disabled} title={title} onClick={onSelect}>
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
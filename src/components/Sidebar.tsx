@@ -1,36 +1,127 @@
-import type { OperationType } from '../types';
+import type { ReactNode } from 'react';
+import type { OperationType, TreeKind, DuplicatePolicy } from '../types';
+import { TREE_KINDS, getKindNames } from '../core/variants';
+import { BTREE_ORDERS, BTREE_OPERATIONS } from '../core/btree';
+import { DUPLICATE_POLICIES, DUPLICATE_LABELS } from '../core/bst';
 
 interface SidebarProps {
   onOperation: (op: OperationType) => void;
+  treeKind: TreeKind;
+  onTreeKindChange: (kind: TreeKind) => void;
+  bTreeOrder: number;
+  onBTreeOrderChange: (order: number) => void;
+  /** What inserting an existing key does (plain BSTs only) */
+  duplicates: DuplicatePolicy;
+  onDuplicatesChange: (policy: DuplicatePolicy) => void;
   disabled: boolean;
+  /** Operations unavailable for the current tree, with the reason as a tooltip */
+  blocked?: { ops: OperationType[]; reason: string };
+  /** Extra panels rendered below the operation buttons */
+  children?: ReactNode;
 }
 
 const OPERATIONS: { label: string; op: OperationType }[] = [
   { label: 'Create', op: 'create' },
+  { label: 'Build Balanced', op: 'buildBalanced' },
   { label: 'Search(v)', op: 'search' },
   { label: 'Insert(v)', op: 'insert' },
   { label: 'Remove(v)', op: 'remove' },
   { label: 'Predecessor(v)', op: 'predecessor' },
   { label: 'Successor(v)', op: 'successor' },
+  { label: 'Floor(v)', op: 'floor' },
+  { label: 'Ceiling(v)', op: 'ceiling' },
+  { label: 'Nearest(v)', op: 'nearest' },
   { label: 'Select(k)', op: 'selectKth' },
+  { label: 'Rank(v)', op: 'rank' },
+  { label: 'Range(lo, hi)', op: 'rangeSearch' },
+  { label: 'Range Count(lo, hi)', op: 'rangeCount' },
+  { label: 'LCA(a, b)', op: 'lca' },
+  { label: 'Distance(a, b)', op: 'distance' },
   { label: 'In-Order', op: 'inorder' },
   { label: 'Pre-Order', op: 'preorder' },
   { label: 'Post-Order', op: 'postorder' },
+  { label: 'Level-Order', op: 'levelorder' },
+  { label: 'Rebalance (DSW)', op: 'rebalance' },
 ];
 
-export default function Sidebar({ onOperation, disabled }: SidebarProps) {
+export default function Sidebar({
+  onOperation,
+  treeKind,
+  onTreeKindChange,
+  bTreeOrder,
+  onBTreeOrderChange,
+  duplicates,
+  onDuplicatesChange,
+  disabled,
+  blocked,
+  children,
+}: SidebarProps) {
+  const isBTree = treeKind === 'btree';
+
   return (
     <aside className="sidebar">
-      {OPERATIONS.map(({ label, op }) => (
-        <button
-          key={op}
-          className="sidebar-btn"
+      <select
+        className="sidebar-select"
+        value={treeKind}
+        onChange={(e) => onTreeKindChange(e.target.value as TreeKind)}
+        disabled={disabled}
+        title="Tree kind"
+      >
+        {TREE_KINDS.map((kind) => (
+          <option key={kind} value={kind}>
+            {getKindNames(kind).label}
+          </option>
+        ))}
+      </select>
+
+      {isBTree && (
+        <select
+          className="sidebar-select"
+          value={bTreeOrder}
+          onChange={(e) => onBTreeOrderChange(Number(e.target.value))}
           disabled={disabled}
-          onClick={() => onOperation(op)}
+          title="B-tree order (max children per node)"
         >
-          {label}
-        </button>
-      ))}
+          {BTREE_ORDERS.map((order) => (
+            <option key={order} value={order}>
+              Order {order}{order === 4 ? ' (2-3-4)' : ''}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {treeKind === 'bst' && (
+        <select
+          className="sidebar-select"
+          value={duplicates}
+          onChange={(e) => onDuplicatesChange(e.target.value as DuplicatePolicy)}
+          disabled={disabled}
+          title="What inserting a key that is already in the tree does"
+        >
+          {DUPLICATE_POLICIES.map((policy) => (
+            <option key={policy} value={policy}>
+              Duplicates: {DUPLICATE_LABELS[policy]}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {OPERATIONS.map(({ label, op }) => {
+        const isBlocked = blocked?.ops.includes(op) ?? false;
+        return (
+          <button
+            key={op}
+            className="sidebar-btn"
+            disabled={disabled || isBlocked || (isBTree && !BTREE_OPERATIONS.includes(op))}
+            title={isBlocked ? blocked?.reason : undefined}
+            onClick={() => onOperation(op)}
+          >
+            {label}
+          </button>
+        );
+      })}
+
+      {children}
     </aside>
   );
 }
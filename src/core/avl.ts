@@ -0,0 +1,298 @@
+import type { TreeNode, AnimationStep, HighlightType, HighlightEdge, NodeId } from '../types';
+import type { RootRef } from './bst';
+import {
+  createNode,
+  cloneTree,
+  treeHeight,
+  findMin,
+  rotateLeft,
+  rotateRight,
+  replaceChild,
+  makeStep,
+  makeTraversalStep,
+} from './bst';
+
+// ── Height helpers ─────────────────────────────────────────────────────────
+
+/** Height of a subtree, falling back to a full walk for nodes without a cache. */
+function height(node: TreeNode | null): number {
+  if (!node) return 0;
+  return node.height ?? treeHeight(node);
+}
+
+function updateHeight(node: TreeNode) {
+  node.height = 1 + Math.max(height(node.left), height(node.right));
+}
+
+/** Balance factor: h(left) - h(right). */
+function balanceOf(node: TreeNode | null): number {
+  if (!node) return 0;
+  return height(node.left) - height(node.right);
+}
+
+// ── Rebalancing ────────────────────────────────────────────────────────────
+
+/** Pseudocode line indices for the shared rebalance tail of insert/remove. */
+interface RebalanceLines {
+  height: number;
+  balance: number;
+  leftLeft: number;
+  leftRight: number;
+  rightRight: number;
+  rightLeft: number;
+}
+
+/**
+ * Walk `path` bottom-up, refreshing heights and rotating any node whose
+ * balance factor leaves [-1, 1]. Every height update, balance check and
+ * rotation is recorded as its own step.
+ */
+function rebalancePath(
+  ref: RootRef,
+  path: TreeNode[],
+  steps: AnimationStep[],
+  pathNodes: Map<NodeId, HighlightType>,
+  pathEdges: HighlightEdge[],
+  lines: RebalanceLines,
+) {
+  const snapshot = (description: string, current: NodeId, type: HighlightType, line: number) =>
+    steps.push(makeTraversalStep(ref.root, description, current, type, pathNodes, pathEdges, line));
+
+  for (let i = path.length - 1; i >= 0; i--) {
+    const node = path[i];
+    const parent = i > 0 ? path[i - 1] : null;
+
+    updateHeight(node);
+    snapshot(`Update height of ${node.value} to ${node.height}`, node.id, 'visiting', lines.height);
+
+    const balance = balanceOf(node);
+    if (Math.abs(balance) <= 1) {
+      snapshot(`Balance of ${node.value} is ${balance}, OK`, node.id, 'visiting', lines.balance);
+      continue;
+    }
+    snapshot(`Balance of ${node.value} is ${balance}, unbalanced!`, node.id, 'removing', lines.balance);
+
+    let subRoot: TreeNode;
+    if (balance > 1) {
+      const child = node.left!;
+      if (balanceOf(child) >= 0) {
+        subRoot = rotateRight(node);
+        updateHeight(node);
+        updateHeight(subRoot);
+        replaceChild(ref, parent, node, subRoot);
+        snapshot(`Left-Left case: rotate right at ${node.value}`, subRoot.id, 'found', lines.leftLeft);
+      } else {
+        node.left = rotateLeft(child);
+        updateHeight(child);
+        updateHeight(node.left);
+        snapshot(`Left-Right case: rotate left at ${child.value}`, node.left.id, 'found', lines.leftRight);
+        subRoot = rotateRight(node);
+        updateHeight(node);
+        updateHeight(subRoot);
+        replaceChild(ref, parent, node, subRoot);
+        snapshot(`Left-Right case: rotate right at ${node.value}`, subRoot.id, 'found', lines.leftRight);
+      }
+    } else {
+      const child = node.right!;
+      if (balanceOf(child) <= 0) {
+        subRoot = rotateLeft(node);
+        updateHeight(node);
+        updateHeight(subRoot);
+        replaceChild(ref, parent, node, subRoot);
+        snapshot(`Right-Right case: rotate left at ${node.value}`, subRoot.id, 'found', lines.rightRight);
+      } else {
+        node.right = rotateRight(child);
+        updateHeight(child);
+        updateHeight(node.right);
+        snapshot(`Right-Left case: rotate right at ${child.value}`, node.right.id, 'found', lines.rightLeft);
+        subRoot = rotateLeft(node);
+        updateHeight(node);
+        updateHeight(subRoot);
+        replaceChild(ref, parent, node, subRoot);
+        snapshot(`Right-Left case: rotate left at ${node.value}`, subRoot.id, 'found', lines.rightLeft);
+      }
+    }
+  }
+}
+
+// ── Insert ─────────────────────────────────────────────────────────────────
+// Pseudocode lines (0-indexed):
+//  0: if this == null
+//  1:   create new node
+//  2: else if value < this.key
+//  3:   go left
+//  4: else if value > this.key
+//  5:   go right
+//  6: update this.height
+//  7: balance = h(left) - h(right)
+//  8: if balance > 1 and bal(left) >= 0
+//  9:   rotateRight(this)
+// 10: if balance > 1 and bal(left) < 0
+// 11:   rotateLeft(left), rotateRight(this)
+// 12: if balance < -1 and bal(right) <= 0
+// 13:   rotateLeft(this)
+// 14: if balance < -1 and bal(right) > 0
+// 15:   rotateRight(right), rotateLeft(this)
+
+const INSERT_LINES: RebalanceLines = {
+  height: 6,
+  balance: 7,
+  leftLeft: 9,
+  leftRight: 11,
+  rightRight: 13,
+  rightLeft: 15,
+};
+
+export function insertAVL(
+  root: TreeNode | null,
+  value: number,
+): { root: TreeNode; steps: AnimationStep[] } {
+  const steps: AnimationStep[] = [];
+  const pathEdges: HighlightEdge[] = [];
+  const pathNodes = new Map<NodeId, HighlightType>();
+
+  if (!root) {
+    const newRoot: TreeNode = { ...createNode(value), height: 1 };
+    steps.push(makeStep(newRoot, `Insert ${value} as root`, [[newRoot.id, 'inserting']], [], 1));
+    return { root: newRoot, steps };
+  }
+
+  const ref: RootRef = { root: cloneTree(root) };
+  const path: TreeNode[] = [];
+  let node: TreeNode | null = ref.root;
+
+  while (node) {
+    if (path.length > 0) pathEdges.push([path[path.length - 1].id, node.id]);
+    path.push(node);
+    pathNodes.set(node.id, 'visiting');
+    steps.push(makeTraversalStep(ref.root, `Compare ${value} with ${node.value}`, node.id, 'visiting', pathNodes, pathEdges, 0));
+
+    if (value < node.value) {
+      steps.push(makeTraversalStep(ref.root, `${value} < ${node.value}, go left`, node.id, 'visiting', pathNodes, pathEdges, 2));
+      node = node.left;
+    } else if (value > node.value) {
+      steps.push(makeTraversalStep(ref.root, `${value} > ${node.value}, go right`, node.id, 'visiting', pathNodes, pathEdges, 4));
+      node = node.right;
+    } else {
+      steps.push(makeTraversalStep(ref.root, `${value} is already in the tree`, node.id, 'found', pathNodes, pathEdges, 0));
+      return { root: ref.root!, steps };
+    }
+  }
+
+  const parent = path[path.length - 1];
+  const leaf: TreeNode = { ...createNode(value), height: 1 };
+  if (value < parent.value) parent.left = leaf;
+  else parent.right = leaf;
+  pathEdges.push([parent.id, leaf.id]);
+  pathNodes.set(leaf.id, 'inserting');
+  steps.push(makeTraversalStep(ref.root, `Inserted ${value}`, leaf.id, 'inserting', pathNodes, pathEdges, 1));
+
+  rebalancePath(ref, path, steps, pathNodes, pathEdges, INSERT_LINES);
+
+  steps.push(makeStep(ref.root, `Inserted ${value}, tree is balanced`, [...pathNodes.entries()], [...pathEdges]));
+  return { root: ref.root!, steps };
+}
+
+// ── Remove ─────────────────────────────────────────────────────────────────
+// Pseudocode lines (0-indexed):
+//  0: if this == null
+//  1:   return (not found)
+//  2: else if value < this.key
+//  3:   go left
+//  4: else if value > this.key
+//  5:   go right
+//  6: else // found the node
+//  7:   if leaf or one child: bypass
+//  8:   if two children:
+//  9:     replace with successor
+// 10:     remove successor from right
+// 11: update this.height
+// 12: balance = h(left) - h(right)
+// 13: if balance > 1 and bal(left) >= 0
+// 14:   rotateRight(this)
+// 15: if balance > 1 and bal(left) < 0
+// 16:   rotateLeft(left), rotateRight(this)
+// 17: if balance < -1 and bal(right) <= 0
+// 18:   rotateLeft(this)
+// 19: if balance < -1 and bal(right) > 0
+// 20:   rotateRight(right), rotateLeft(this)
+
+const REMOVE_LINES: RebalanceLines = {
+  height: 11,
+  balance: 12,
+  leftLeft: 14,
+  leftRight: 16,
+  rightRight: 18,
+  rightLeft: 20,
+};
+
+export function removeAVL(
+  root: TreeNode | null,
+  value: number,
+): { root: TreeNode | null; steps: AnimationStep[] } {
+  const steps: AnimationStep[] = [];
+  const pathEdges: HighlightEdge[] = [];
+  const pathNodes = new Map<NodeId, HighlightType>();
+
+  const ref: RootRef = { root: cloneTree(root) };
+  const path: TreeNode[] = [];
+  let node = ref.root;
+
+  while (node && node.value !== value) {
+    if (path.length > 0) pathEdges.push([path[path.length - 1].id, node.id]);
+    path.push(node);
+    pathNodes.set(node.id, 'visiting');
+    steps.push(makeTraversalStep(ref.root, `Visit ${node.value}`, node.id, 'visiting', pathNodes, pathEdges, 0));
+
+    if (value < node.value) {
+      steps.push(makeTraversalStep(ref.root, `${value} < ${node.value}, go left`, node.id, 'visiting', pathNodes, pathEdges, 2));
+      node = node.left;
+    } else {
+      steps.push(makeTraversalStep(ref.root, `${value} > ${node.value}, go right`, node.id, 'visiting', pathNodes, pathEdges, 4));
+      node = node.right;
+    }
+  }
+
+  if (!node) {
+    steps.push(makeStep(ref.root, `${value} not found`, [...pathNodes.entries()], [...pathEdges], 1));
+    return { root: ref.root, steps };
+  }
+
+  if (path.length > 0) pathEdges.push([path[path.length - 1].id, node.id]);
+  pathNodes.set(node.id, 'removing');
+  steps.push(makeTraversalStep(ref.root, `Found ${node.value}, removing`, node.id, 'removing', pathNodes, pathEdges, 6));
+
+  // With two children, copy the successor up and unlink the successor instead
+  let target = node;
+  if (node.left && node.right) {
+    const successor = findMin(node.right);
+    pathNodes.set(successor.id, 'found');
+    steps.push(makeStep(ref.root, `Two children, find successor: ${successor.value}`, [...pathNodes.entries()], [...pathEdges], 8));
+    steps.push(makeStep(ref.root, `Replace ${node.value} with ${successor.value}`, [...pathNodes.entries()], [...pathEdges], 9));
+    node.value = successor.value;
+
+    path.push(node);
+    let cur = node.right;
+    while (cur !== successor) {
+      path.push(cur);
+      cur = cur.left!;
+    }
+    target = successor;
+  }
+
+  const parent = path.length > 0 ? path[path.length - 1] : null;
+  const child = target.left ?? target.right;
+  replaceChild(ref, parent, target, child);
+  steps.push(makeStep(
+    ref.root,
+    target === node ? `Unlink ${value}` : `Remove successor ${target.value} from right subtree`,
+    [...pathNodes.entries()],
+    [...pathEdges],
+    target === node ? 7 : 10,
+  ));
+
+  rebalancePath(ref, path, steps, pathNodes, pathEdges, REMOVE_LINES);
+
+  steps.push(makeStep(ref.root, `Removal complete, tree is balanced`, [...pathNodes.entries()], [...pathEdges]));
+  return { root: ref.root, steps };
+}
@@ -1,11 +1,38 @@
-import type { TreeNode, AnimationStep, HighlightType } from '../types';
+import type { TreeNode, AnimationStep, HighlightType, HighlightEdge, EdgeHighlight, CallFrame, DuplicatePolicy, NodeId } from '../types';
 
 // ── Helpers ────────────────────────────────────────────────────────────────
 
+let lastId = 0;
+
+/** A new leaf with an id no other node has had. */
+export function createNode(value: number): TreeNode {
+  return { id: ++lastId, value, left: null, right: null };
+}
+
+/** The node with the given id, searched in pre-order. */
+export function findNodeById(node: TreeNode | null, id: NodeId): TreeNode | null {
+  if (!node) return null;
+  if (node.id === id) return node;
+  return findNodeById(node.left, id) ?? findNodeById(node.right, id);
+}
+
 /** Deep-clone a tree (cheap for typical BST sizes). */
 export function cloneTree(node: TreeNode | null): TreeNode | null {
   if (!node) return null;
-  return { value: node.value, left: cloneTree(node.left), right: cloneTree(node.right) };
+  return { ...node, left: cloneTree(node.left), right: cloneTree(node.right) };
+}
+
+/** Same shape, keys and per-node data (colour, priority, count); ids are ignored. */
+export function sameTree(a: TreeNode | null, b: TreeNode | null): boolean {
+  if (!a || !b) return a === b;
+  return (
+    a.value === b.value &&
+    a.count === b.count &&
+    a.color === b.color &&
+    a.priority === b.priority &&
+    sameTree(a.left, b.left) &&
+    sameTree(a.right, b.right)
+  );
 }
 
 /** Count nodes. */
@@ -34,15 +61,53 @@ function findMax(node: TreeNode): TreeNode {
   return cur;
 }
 
+// ── Rotations ──────────────────────────────────────────────────────────────
+//
+// Shared by the self-balancing variants. Rotations mutate in place and return
+// the new subtree root; the caller re-links it with `replaceChild`.
+
+/** Mutable handle on a tree's root so helpers can re-link the root itself. */
+export interface RootRef {
+  root: TreeNode | null;
+}
+
+/** Rotate `node` left: its right child becomes the subtree root. */
+function rotateLeft(node: TreeNode): TreeNode {
+  const pivot = node.right!;
+  node.right = pivot.left;
+  pivot.left = node;
+  return pivot;
+}
+
+/** Rotate `node` right: its left child becomes the subtree root. */
+function rotateRight(node: TreeNode): TreeNode {
+  const pivot = node.left!;
+  node.left = pivot.right;
+  pivot.right = node;
+  return pivot;
+}
+
+/** Point `parent`'s link to `oldChild` at `newChild` (or replace the root). */
+function replaceChild(
+  ref: RootRef,
+  parent: TreeNode | null,
+  oldChild: TreeNode,
+  newChild: TreeNode | null,
+) {
+  if (!parent) ref.root = newChild;
+  else if (parent.left === oldChild) parent.left = newChild;
+  else parent.right = newChild;
+}
+
 // ── Step builder utility ───────────────────────────────────────────────────
 
 function makeStep(
   tree: TreeNode | null,
   description: string,
-  highlights: Array<[number, HighlightType]> = [],
-  edges: Array<[number, number]> = [],
+  highlights: Array<[NodeId, HighlightType]> = [],
+  edges: HighlightEdge[] = [],
   codeLine?: number,
-  activeNode?: number,
+  activeNode?: NodeId,
 ): AnimationStep {
   return {
     tree: cloneTree(tree),
@@ -54,6 +119,34 @@ function makeStep(
   };
 }
 
+// ── Call stack of recursive algorithms ─────────────────────────────────────
+
+/** Tracks the calls in progress so each step can show them. */
+function createCallStack(fn: string) {
+  const frames: CallFrame[] = [];
+  return {
+    enter(node: TreeNode | null) {
+      frames.push({ fn, node: node?.value ?? null, line: 0 });
+    },
+    leave() {
+      frames.pop();
+    },
+    /** The step with the current frames; the innermost one is at the step's line */
+    attach(step: AnimationStep): AnimationStep {
+      const top = frames[frames.length - 1];
+      if (top && step.codeLine !== undefined) top.line = step.codeLine;
+      return { ...step, callStack: frames.map((f) => ({ ...f })) };
+    },
+  };
+}
+
+// ── Watched variables ──────────────────────────────────────────────────────
+
+/** Attach the algorithm's local variables (for the watch panel) to a step. */
+function watch(step: AnimationStep, variables: Record<string, number | null>): AnimationStep {
+  return { ...step, variables: new Map(Object.entries(variables)) };
+}
+
 // ── Search ─────────────────────────────────────────────────────────────────
 // Pseudocode lines (0-indexed):
 //  0: if this == null
@@ -69,35 +162,36 @@ export function searchNode(
   value: number,
 ): { found: boolean; steps: AnimationStep[] } {
   const steps: AnimationStep[] = [];
-  const pathEdges: Array<[number, number]> = [];
-  const pathNodes = new Map<number, HighlightType>();
+  const pathEdges: HighlightEdge[] = [];
+  const pathNodes = new Map<NodeId, HighlightType>();
   let node = root;
-  let parent: number | null = null;
+  let parent: NodeId | null = null;
 
   while (node) {
     // Add edge from parent to this node
     if (parent !== null) {
-      pathEdges.push([parent, node.value]);
+      pathEdges.push([parent, node.id]);
     }
 
     // Mark this node as visiting
-    pathNodes.set(node.value, 'visiting');
-    steps.push(makeTraversalStep(root, `Visit node ${node.value}`, node.value, 'visiting', pathNodes, pathEdges, 0));
+    pathNodes.set(node.id, 'visiting');
+    steps.push(makeTraversalStep(root, `Visit node ${node.value}`, node.id, 'visiting', pathNodes, pathEdges, 0));
 
     if (value === node.value) {
-      pathNodes.set(node.value, 'found');
-      steps.push(makeTraversalStep(root, `${node.value} == ${value}. Found!`, node.value, 'found', pathNodes, pathEdges, 2));
-      steps.push(makeTraversalStep(root, `Value ${value} is found.`, node.value, 'found', pathNodes, pathEdges, 3));
+      const copies = node.count ? ` (${node.count} copies)` : '';
+      pathNodes.set(node.id, 'found');
+      steps.push(makeTraversalStep(root, `${node.value} == ${value}. Found!`, node.id, 'found', pathNodes, pathEdges, 2));
+      steps.push(makeTraversalStep(root, `Value ${value} is found${copies}.`, node.id, 'found', pathNodes, pathEdges, 3));
       return { found: true, steps };
     }
 
     if (value < node.value) {
-      steps.push(makeTraversalStep(root, `${value} < ${node.value}, go left`, node.value, 'visiting', pathNodes, pathEdges, 6));
+      steps.push(makeTraversalStep(root, `${value} < ${node.value}, go left`, node.id, 'visiting', pathNodes, pathEdges, 6));
     } else {
-      steps.push(makeTraversalStep(root, `${value} > ${node.value}, go right`, node.value, 'visiting', pathNodes, pathEdges, 5));
+      steps.push(makeTraversalStep(root, `${value} > ${node.value}, go right`, node.id, 'visiting', pathNodes, pathEdges, 5));
     }
 
-    parent = node.value;
+    parent = node.id;
     node = value < node.value ? node.left : node.right;
   }
 
@@ -114,47 +208,92 @@ export function searchNode(
 //  3:   go left
 //  4: else if value > this.key
 //  5:   go right
+//  6: else // equal key
+//  7:   reject / count++ / go left / go right, as the duplicate policy says
+
+/** Duplicate policies with the names the sidebar shows */
+export const DUPLICATE_LABELS: Record<DuplicatePolicy, string> = {
+  reject: 'reject',
+  count: 'count copies',
+  left: 'go left',
+  right: 'go right',
+};
+
+export const DUPLICATE_POLICIES = Object.keys(DUPLICATE_LABELS) as DuplicatePolicy[];
 
 export function insertNode(
   root: TreeNode | null,
   value: number,
+  duplicates: DuplicatePolicy = 'reject',
 ): { root: TreeNode; steps: AnimationStep[] } {
   const steps: AnimationStep[] = [];
-  const pathEdges: Array<[number, number]> = [];
-  const pathNodes = new Map<number, HighlightType>();
-
-  function insert(node: TreeNode | null, parent: number | null): TreeNode {
-    if (!node) {
-      const newNode: TreeNode = { value, left: null, right: null };
-      return newNode;
-    }
+  const pathEdges: HighlightEdge[] = [];
+  const pathNodes = new Map<NodeId, HighlightType>();
+  const calls = createCallStack('insert');
+  const push = (step: AnimationStep) => steps.push(calls.attach(step));
+  // Summary of the last step; a key rejected or counted in place ends at line 7
+  let outcome = `Inserted ${value}`;
+  let outcomeLine = 1;
+  const created = createNode(value);
+
+  function insert(node: TreeNode | null, parent: NodeId | null): TreeNode {
+    if (!node) return created;
+    calls.enter(node);
 
     if (parent !== null) {
-      pathEdges.push([parent, node.value]);
+      pathEdges.push([parent, node.id]);
     }
-    pathNodes.set(node.value, 'visiting');
-    steps.push(makeTraversalStep(root, `Compare ${value} with ${node.value}`, node.value, 'visiting', pathNodes, pathEdges, 0));
+    pathNodes.set(node.id, 'visiting');
+    push(makeTraversalStep(root, `Compare ${value} with ${node.value}`, node.id, 'visiting', pathNodes, pathEdges, 0));
 
     if (value < node.value) {
-      steps.push(makeTraversalStep(root, `${value} < ${node.value}, go left`, node.value, 'visiting', pathNodes, pathEdges, 2));
-      node.left = insert(node.left, node.value);
+      push(makeTraversalStep(root, `${value} < ${node.value}, go left`, node.id, 'visiting', pathNodes, pathEdges, 2));
+      node.left = insert(node.left, node.id);
     } else if (value > node.value) {
-      steps.push(makeTraversalStep(root, `${value} > ${node.value}, go right`, node.value, 'visiting', pathNodes, pathEdges, 4));
-      node.right = insert(node.right, node.value);
+      push(makeTraversalStep(root, `${value} > ${node.value}, go right`, node.id, 'visiting', pathNodes, pathEdges, 4));
+      node.right = insert(node.right, node.id);
+    } else {
+      push(makeTraversalStep(root, `${value} == ${node.value}: the key is already present`, node.id, 'found', pathNodes, pathEdges, 6));
+      insertEqual(node);
     }
+    calls.leave();
     return node;
   }
 
+  function insertEqual(node: TreeNode) {
+    switch (duplicates) {
+      case 'reject':
+        outcome = `${value} is already in the tree: not inserted`;
+        outcomeLine = 7;
+        push(makeTraversalStep(root, `Duplicates are rejected, the tree is unchanged`, node.id, 'found', pathNodes, pathEdges, 7));
+        break;
+      case 'count':
+        node.count = (node.count ?? 1) + 1;
+        outcome = `Inserted ${value} again: ${node.count} copies`;
+        outcomeLine = 7;
+        pathNodes.set(node.id, 'inserting');
+        push(makeTraversalStep(root, `Count ${value} on the existing node: ${node.count} copies`, node.id, 'inserting', pathNodes, pathEdges, 7));
+        break;
+      case 'left':
+        push(makeTraversalStep(root, `Equal keys go left`, node.id, 'visiting', pathNodes, pathEdges, 7));
+        node.left = insert(node.left, node.id);
+        break;
+      case 'right':
+        push(makeTraversalStep(root, `Equal keys go right`, node.id, 'visiting', pathNodes, pathEdges, 7));
+        node.right = insert(node.right, node.id);
+        break;
+    }
+  }
+
   if (!root) {
-    const newRoot: TreeNode = { value, left: null, right: null };
-    steps.push(makeStep(newRoot, `Insert ${value} as root`, [[value, 'inserting']], [], 1));
-    return { root: newRoot, steps };
+    steps.push(makeStep(created, `Insert ${value} as root`, [[created.id, 'inserting']], [], 1));
+    return { root: created, steps };
   }
 
   root = cloneTree(root)!;
   root = insert(root, null);
-  pathNodes.set(value, 'inserting');
-  steps.push(makeStep(root, `Inserted ${value}`, [...pathNodes.entries()], [...pathEdges], 1));
+  if (outcomeLine === 1) pathNodes.set(created.id, 'inserting');
+  steps.push(makeStep(root, outcome, [...pathNodes.entries()], [...pathEdges], outcomeLine));
   return { root, steps };
 }
 
@@ -172,67 +311,94 @@ export function insertNode(
 //  9:   if two children: find successor
 // 10:     replace key with successor
 // 11:     remove successor from right
+//
+// Under the 'count' duplicate policy a node holding several copies only
+// loses one (line 6). Under 'left' equal keys may sit in the left subtree,
+// so a node with two children is replaced by its predecessor instead.
 
 export function removeNode(
   root: TreeNode | null,
   value: number,
+  duplicates: DuplicatePolicy = 'reject',
 ): { root: TreeNode | null; steps: AnimationStep[] } {
   const steps: AnimationStep[] = [];
-  const pathEdges: Array<[number, number]> = [];
-  const pathNodes = new Map<number, HighlightType>();
+  const pathEdges: HighlightEdge[] = [];
+  const pathNodes = new Map<NodeId, HighlightType>();
+  const calls = createCallStack('remove');
+  const push = (step: AnimationStep) => steps.push(calls.attach(step));
+
+  // `key` is `value`, or the replacement's key once it has been copied up;
+  // the replacement's node goes as a whole, whatever its count
+  function remove(node: TreeNode | null, key: number, parent: NodeId | null, whole = false): TreeNode | null {
+    calls.enter(node);
+    const result = removeAt(node, key, parent, whole);
+    calls.leave();
+    return result;
+  }
 
-  function remove(node: TreeNode | null, parent: number | null): TreeNode | null {
+  function removeAt(node: TreeNode | null, key: number, parent: NodeId | null, whole: boolean): TreeNode | null {
     if (!node) {
-      steps.push(makeStep(root, `${value} not found`, [...pathNodes.entries()], [...pathEdges], 1));
+      push(makeStep(root, `${key} not found`, [...pathNodes.entries()], [...pathEdges], 1));
       return null;
     }
 
     if (parent !== null) {
-      pathEdges.push([parent, node.value]);
+      pathEdges.push([parent, node.id]);
     }
-    pathNodes.set(node.value, 'visiting');
-    steps.push(makeTraversalStep(root, `Visit ${node.value}`, node.value, 'visiting', pathNodes, pathEdges, 0));
+    pathNodes.set(node.id, 'visiting');
+    push(makeTraversalStep(root, `Visit ${node.value}`, node.id, 'visiting', pathNodes, pathEdges, 0));
 
-    if (value < node.value) {
-      steps.push(makeTraversalStep(root, `${value} < ${node.value}, go left`, node.value, 'visiting', pathNodes, pathEdges, 2));
-      node.left = remove(node.left, node.value);
+    if (key < node.value) {
+      push(makeTraversalStep(root, `${key} < ${node.value}, go left`, node.id, 'visiting', pathNodes, pathEdges, 2));
+      node.left = remove(node.left, key, node.id, whole);
       return node;
     }
-    if (value > node.value) {
-      steps.push(makeTraversalStep(root, `${value} > ${node.value}, go right`, node.value, 'visiting', pathNodes, pathEdges, 4));
-      node.right = remove(node.right, node.value);
+    if (key > node.value) {
+      push(makeTraversalStep(root, `${key} > ${node.value}, go right`, node.id, 'visiting', pathNodes, pathEdges, 4));
+      node.right = remove(node.right, key, node.id, whole);
+      return node;
+    }
+
+    if (node.count && !whole) {
+      node.count = node.count > 2 ? node.count - 1 : undefined;
+      pathNodes.set(node.id, 'removing');
+      push(makeTraversalStep(root, `${node.value} has several copies: drop one, ${node.count ?? 1} left`, node.id, 'removing', pathNodes, pathEdges, 6));
       return node;
     }
 
     // Found the node to remove → line 6
-    pathNodes.set(node.value, 'removing');
-    steps.push(makeTraversalStep(root, `Found ${node.value}, removing`, node.value, 'removing', pathNodes, pathEdges, 6));
+    pathNodes.set(node.id, 'removing');
+    push(makeTraversalStep(root, `Found ${node.value}, removing`, node.id, 'removing', pathNodes, pathEdges, 6));
 
     if (!node.left && !node.right) {
-      steps.push(makeTraversalStep(root, `${node.value} is a leaf, remove it`, node.value, 'removing', pathNodes, pathEdges, 7));
+      push(makeTraversalStep(root, `${node.value} is a leaf, remove it`, node.id, 'removing', pathNodes, pathEdges, 7));
       return null;
     }
     if (!node.left) {
-      steps.push(makeTraversalStep(root, `${node.value} has one child, replace`, node.value, 'removing', pathNodes, pathEdges, 8));
+      push(makeTraversalStep(root, `${node.value} has one child, replace`, node.id, 'removing', pathNodes, pathEdges, 8));
       return node.right;
     }
     if (!node.right) {
-      steps.push(makeTraversalStep(root, `${node.value} has one child, replace`, node.value, 'removing', pathNodes, pathEdges, 8));
+      push(makeTraversalStep(root, `${node.value} has one child, replace`, node.id, 'removing', pathNodes, pathEdges, 8));
       return node.left;
     }
 
-    // Two children: replace with in-order successor → line 9
-    const successor = findMin(node.right);
-    pathNodes.set(successor.value, 'found');
-    steps.push(makeStep(root, `Two children, find successor: ${successor.value}`, [...pathNodes.entries()], [...pathEdges], 9));
-    steps.push(makeStep(root, `Replace ${node.value} with ${successor.value}`, [...pathNodes.entries()], [...pathEdges], 10));
-    node.value = successor.value;
-    node.right = remove(node.right, node.value);
+    // Two children: replace with in-order successor (predecessor) → line 9
+    const side = duplicates === 'left' ? 'left' : 'right';
+    const name = side === 'left' ? 'predecessor' : 'successor';
+    const replacement = side === 'left' ? findMax(node.left) : findMin(node.right);
+    pathNodes.set(replacement.id, 'found');
+    push(makeStep(root, `Two children, find ${name}: ${replacement.value}`, [...pathNodes.entries()], [...pathEdges], 9));
+    push(makeStep(root, `Replace ${node.value} with ${replacement.value}`, [...pathNodes.entries()], [...pathEdges], 10));
+    node.value = replacement.value;
+    node.count = replacement.count;
+    push(makeStep(root, `Remove ${name} ${replacement.value} from the ${side} subtree`, [...pathNodes.entries()], [...pathEdges], 11));
+    node[side] = remove(node[side], replacement.value, node.id, true);
     return node;
   }
 
   root = cloneTree(root);
-  root = remove(root, null);
+  root = remove(root, value, null);
   steps.push(makeStep(root, `Removal complete`, [...pathNodes.entries()], [...pathEdges], undefined));
   return { root, steps };
 }
@@ -243,21 +409,21 @@ export function removeNode(
 // traversed paths stay coloured throughout the animation.
 
 /** Build a parent→child edge map for the whole tree. */
-function buildParentMap(node: TreeNode | null, parent: number | null, out: Map<number, number>) {
+function buildParentMap(node: TreeNode | null, parent: NodeId | null, out: Map<NodeId, NodeId>) {
   if (!node) return;
-  if (parent !== null) out.set(node.value, parent);
-  buildParentMap(node.left, node.value, out);
-  buildParentMap(node.right, node.value, out);
+  if (parent !== null) out.set(node.id, parent);
+  buildParentMap(node.left, node.id, out);
+  buildParentMap(node.right, node.id, out);
 }
 
 /** Helper: create a traversal step that keeps all previously visited edges/nodes. */
 function makeTraversalStep(
   tree: TreeNode | null,
   description: string,
-  currentNode: number,
+  currentNode: NodeId,
   currentType: HighlightType,
-  visitedNodes: Map<number, HighlightType>,
-  visitedEdges: Array<[number, number]>,
+  visitedNodes: Map<NodeId, HighlightType>,
+  visitedEdges: HighlightEdge[],
   codeLine: number,
 ): AnimationStep {
   // Merge visited nodes with the current highlight (current node on top)
@@ -282,31 +448,35 @@ function makeTraversalStep(
 
 export function inorderTraversal(root: TreeNode | null): AnimationStep[] {
   const steps: AnimationStep[] = [];
-  const visitedNodes = new Map<number, HighlightType>();
-  const visitedEdges: Array<[number, number]> = [];
-  const parentMap = new Map<number, number>();
+  const visitedNodes = new Map<NodeId, HighlightType>();
+  const visitedEdges: HighlightEdge[] = [];
+  const parentMap = new Map<NodeId, NodeId>();
   buildParentMap(root, null, parentMap);
+  const calls = createCallStack('inorder');
+  const push = (step: AnimationStep) => steps.push(calls.attach(step));
 
   function walk(node: TreeNode | null) {
     if (!node) return;
+    calls.enter(node);
 
     // Going left
-    steps.push(makeTraversalStep(root, `Go left from ${node.value}`, node.value, 'visiting', visitedNodes, visitedEdges, 2));
+    push(makeTraversalStep(root, `Go left from ${node.value}`, node.id, 'visiting', visitedNodes, visitedEdges, 2));
     if (node.left) {
-      visitedEdges.push([node.value, node.left.value]);
+      visitedEdges.push([node.id, node.left.id]);
     }
     walk(node.left);
 
     // Visit this node
-    visitedNodes.set(node.value, 'found');
-    steps.push(makeTraversalStep(root, `Visit ${node.value} (in-order)`, node.value, 'found', visitedNodes, visitedEdges, 3));
+    visitedNodes.set(node.id, 'found');
+    push(makeTraversalStep(root, `Visit ${node.value} (in-order)`, node.id, 'found', visitedNodes, visitedEdges, 3));
 
     // Going right
-    steps.push(makeTraversalStep(root, `Go right from ${node.value}`, node.value, 'visiting', visitedNodes, visitedEdges, 4));
+    push(makeTraversalStep(root, `Go right from ${node.value}`, node.id, 'visiting', visitedNodes, visitedEdges, 4));
     if (node.right) {
-      visitedEdges.push([node.value, node.right.value]);
+      visitedEdges.push([node.id, node.right.id]);
     }
     walk(node.right);
+    calls.leave();
   }
 
   walk(root);
@@ -323,31 +493,35 @@ export function inorderTraversal(root: TreeNode | null): AnimationStep[] {
 
 export function preorderTraversal(root: TreeNode | null): AnimationStep[] {
   const steps: AnimationStep[] = [];
-  const visitedNodes = new Map<number, HighlightType>();
-  const visitedEdges: Array<[number, number]> = [];
-  const parentMap = new Map<number, number>();
+  const visitedNodes = new Map<NodeId, HighlightType>();
+  const visitedEdges: HighlightEdge[] = [];
+  const parentMap = new Map<NodeId, NodeId>();
   buildParentMap(root, null, parentMap);
+  const calls = createCallStack('preorder');
+  const push = (step: AnimationStep) => steps.push(calls.attach(step));
 
   function walk(node: TreeNode | null) {
     if (!node) return;
+    calls.enter(node);
 
     // Visit this node first
-    visitedNodes.set(node.value, 'found');
-    steps.push(makeTraversalStep(root, `Visit ${node.value} (pre-order)`, node.value, 'found', visitedNodes, visitedEdges, 2));
+    visitedNodes.set(node.id, 'found');
+    push(makeTraversalStep(root, `Visit ${node.value} (pre-order)`, node.id, 'found', visitedNodes, visitedEdges, 2));
 
     // Go left
-    steps.push(makeTraversalStep(root, `Go left from ${node.value}`, node.value, 'visiting', visitedNodes, visitedEdges, 3));
+    push(makeTraversalStep(root, `Go left from ${node.value}`, node.id, 'visiting', visitedNodes, visitedEdges, 3));
     if (node.left) {
-      visitedEdges.push([node.value, node.left.value]);
+      visitedEdges.push([node.id, node.left.id]);
     }
     walk(node.left);
 
     // Go right
-    steps.push(makeTraversalStep(root, `Go right from ${node.value}`, node.value, 'visiting', visitedNodes, visitedEdges, 4));
+    push(makeTraversalStep(root, `Go right from ${node.value}`, node.id, 'visiting', visitedNodes, visitedEdges, 4));
     if (node.right) {
-      visitedEdges.push([node.value, node.right.value]);
+      visitedEdges.push([node.id, node.right.id]);
     }
     walk(node.right);
+    calls.leave();
   }
 
   walk(root);
@@ -364,31 +538,35 @@ export function preorderTraversal(root: TreeNode | null): AnimationStep[] {
 
 export function postorderTraversal(root: TreeNode | null): AnimationStep[] {
   const steps: AnimationStep[] = [];
-  const visitedNodes = new Map<number, HighlightType>();
-  const visitedEdges: Array<[number, number]> = [];
-  const parentMap = new Map<number, number>();
+  const visitedNodes = new Map<NodeId, HighlightType>();
+  const visitedEdges: HighlightEdge[] = [];
+  const parentMap = new Map<NodeId, NodeId>();
   buildParentMap(root, null, parentMap);
+  const calls = createCallStack('postorder');
+  const push = (step: AnimationStep) => steps.push(calls.attach(step));
 
   function walk(node: TreeNode | null) {
     if (!node) return;
+    calls.enter(node);
 
     // Go left
-    steps.push(makeTraversalStep(root, `Go left from ${node.value}`, node.value, 'visiting', visitedNodes, visitedEdges, 2));
+    push(makeTraversalStep(root, `Go left from ${node.value}`, node.id, 'visiting', visitedNodes, visitedEdges, 2));
     if (node.left) {
-      visitedEdges.push([node.value, node.left.value]);
+      visitedEdges.push([node.id, node.left.id]);
     }
     walk(node.left);
 
     // Go right
-    steps.push(makeTraversalStep(root, `Go right from ${node.value}`, node.value, 'visiting', visitedNodes, visitedEdges, 3));
+    push(makeTraversalStep(root, `Go right from ${node.value}`, node.id, 'visiting', visitedNodes, visitedEdges, 3));
     if (node.right) {
-      visitedEdges.push([node.value, node.right.value]);
+      visitedEdges.push([node.id, node.right.id]);
     }
     walk(node.right);
 
     // Visit this node last
-    visitedNodes.set(node.value, 'found');
-    steps.push(makeTraversalStep(root, `Visit ${node.value} (post-order)`, node.value, 'found', visitedNodes, visitedEdges, 4));
+    visitedNodes.set(node.id, 'found');
+    push(makeTraversalStep(root, `Visit ${node.value} (post-order)`, node.id, 'found', visitedNodes, visitedEdges, 4));
+    calls.leave();
   }
 
   walk(root);
@@ -396,6 +574,60 @@ export function postorderTraversal(root: TreeNode | null): AnimationStep[] {
   return steps;
 }
 
+// Level-order pseudocode (0-indexed):
+//  0: queue = [root]
+//  1: while queue is not empty
+//  2:   node = queue.dequeue()
+//  3:   visit node
+//  4:   if node.left != null
+//  5:     queue.enqueue(node.left)
+//  6:   if node.right != null
+//  7:     queue.enqueue(node.right)
+//
+// Each step carries the queue; nodes waiting in it are marked 'path'.
+
+export function levelorderTraversal(root: TreeNode | null): AnimationStep[] {
+  const steps: AnimationStep[] = [];
+  const visitedNodes = new Map<NodeId, HighlightType>();
+  const visitedEdges: HighlightEdge[] = [];
+  const queue: TreeNode[] = [];
+
+  function push(description: string, node: TreeNode, type: HighlightType, codeLine: number, marked: number[] = []) {
+    const step = makeTraversalStep(root, description, node.id, type, visitedNodes, visitedEdges, codeLine);
+    steps.push({ ...step, aux: { kind: 'queue', items: queue.map((n) => n.value), marked } });
+  }
+
+  function enqueue(parent: TreeNode, child: TreeNode, codeLine: number) {
+    queue.push(child);
+    visitedNodes.set(child.id, 'path');
+    visitedEdges.push([parent.id, child.id]);
+    push(`Enqueue ${child.value}`, parent, 'found', codeLine, [child.value]);
+  }
+
+  if (root) {
+    queue.push(root);
+    visitedNodes.set(root.id, 'path');
+    push(`Start with the root ${root.value} in the queue`, root, 'path', 0, [root.value]);
+  }
+
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    push(`Dequeue ${node.value}`, node, 'visiting', 2);
+
+    visitedNodes.set(node.id, 'found');
+    push(`Visit ${node.value} (level-order)`, node, 'found', 3);
+
+    if (node.left) enqueue(node, node.left, 5);
+    if (node.right) enqueue(node, node.right, 7);
+  }
+
+  steps.push({
+    ...makeStep(root, 'Level-order traversal complete', [...visitedNodes.entries()], [...visitedEdges]),
+    aux: { kind: 'queue', items: [] },
+  });
+  return steps;
+}
+
 // ── Predecessor / Successor ────────────────────────────────────────────────
 // Predecessor pseudocode (0-indexed):
 //  0: predecessor = null
@@ -412,36 +644,39 @@ export function findPredecessor(
   value: number,
 ): { result: number | null; steps: AnimationStep[] } {
   const steps: AnimationStep[] = [];
-  const pathEdges: Array<[number, number]> = [];
-  const pathNodes = new Map<number, HighlightType>();
+  const pathEdges: HighlightEdge[] = [];
+  const pathNodes = new Map<NodeId, HighlightType>();
   let predecessor: TreeNode | null = null;
   let node = root;
-  let parent: number | null = null;
+  let parent: NodeId | null = null;
+
+  const push = (step: AnimationStep) =>
+    steps.push(watch(step, { value, node: node?.value ?? null, predecessor: predecessor?.value ?? null }));
 
-  steps.push(makeStep(root, `Finding predecessor of ${value}`, [], [], 0));
+  push(makeStep(root, `Finding predecessor of ${value}`, [], [], 0));
 
   while (node) {
-    if (parent !== null) pathEdges.push([parent, node.value]);
-    pathNodes.set(node.value, 'visiting');
-    steps.push(makeTraversalStep(root, `Visit ${node.value}`, node.value, 'visiting', pathNodes, pathEdges, 1));
+    if (parent !== null) pathEdges.push([parent, node.id]);
+    pathNodes.set(node.id, 'visiting');
+    push(makeTraversalStep(root, `Visit ${node.value}`, node.id, 'visiting', pathNodes, pathEdges, 1));
 
     if (value <= node.value) {
-      steps.push(makeTraversalStep(root, `${value} <= ${node.value}, go left`, node.value, 'visiting', pathNodes, pathEdges, 3));
-      parent = node.value;
+      push(makeTraversalStep(root, `${value} <= ${node.value}, go left`, node.id, 'visiting', pathNodes, pathEdges, 3));
+      parent = node.id;
       node = node.left;
     } else {
-      pathNodes.set(node.value, 'found');
-      steps.push(makeTraversalStep(root, `${value} > ${node.value}, candidate`, node.value, 'found', pathNodes, pathEdges, 5));
+      pathNodes.set(node.id, 'found');
       predecessor = node;
-      parent = node.value;
+      push(makeTraversalStep(root, `${value} > ${node.value}, candidate`, node.id, 'found', pathNodes, pathEdges, 5));
+      parent = node.id;
       node = node.right;
     }
   }
 
   if (predecessor) {
-    steps.push(makeStep(root, `Predecessor of ${value} is ${predecessor.value}`, [...pathNodes.entries()], [...pathEdges], 7));
+    push(makeStep(root, `Predecessor of ${value} is ${predecessor.value}`, [...pathNodes.entries()], [...pathEdges], 7));
   } else {
-    steps.push(makeStep(root, `No predecessor for ${value}`, [...pathNodes.entries()], [...pathEdges], 7));
+    push(makeStep(root, `No predecessor for ${value}`, [...pathNodes.entries()], [...pathEdges], 7));
   }
   return { result: predecessor?.value ?? null, steps };
 }
@@ -461,40 +696,193 @@ export function findSuccessor(
   value: number,
 ): { result: number | null; steps: AnimationStep[] } {
   const steps: AnimationStep[] = [];
-  const pathEdges: Array<[number, number]> = [];
-  const pathNodes = new Map<number, HighlightType>();
+  const pathEdges: HighlightEdge[] = [];
+  const pathNodes = new Map<NodeId, HighlightType>();
   let successor: TreeNode | null = null;
   let node = root;
-  let parent: number | null = null;
+  let parent: NodeId | null = null;
+
+  const push = (step: AnimationStep) =>
+    steps.push(watch(step, { value, node: node?.value ?? null, successor: successor?.value ?? null }));
 
-  steps.push(makeStep(root, `Finding successor of ${value}`, [], [], 0));
+  push(makeStep(root, `Finding successor of ${value}`, [], [], 0));
 
   while (node) {
-    if (parent !== null) pathEdges.push([parent, node.value]);
-    pathNodes.set(node.value, 'visiting');
-    steps.push(makeTraversalStep(root, `Visit ${node.value}`, node.value, 'visiting', pathNodes, pathEdges, 1));
+    if (parent !== null) pathEdges.push([parent, node.id]);
+    pathNodes.set(node.id, 'visiting');
+    push(makeTraversalStep(root, `Visit ${node.value}`, node.id, 'visiting', pathNodes, pathEdges, 1));
 
     if (value >= node.value) {
-      steps.push(makeTraversalStep(root, `${value} >= ${node.value}, go right`, node.value, 'visiting', pathNodes, pathEdges, 3));
-      parent = node.value;
+      push(makeTraversalStep(root, `${value} >= ${node.value}, go right`, node.id, 'visiting', pathNodes, pathEdges, 3));
+      parent = node.id;
       node = node.right;
     } else {
-      pathNodes.set(node.value, 'found');
-      steps.push(makeTraversalStep(root, `${value} < ${node.value}, candidate`, node.value, 'found', pathNodes, pathEdges, 5));
+      pathNodes.set(node.id, 'found');
       successor = node;
-      parent = node.value;
+      push(makeTraversalStep(root, `${value} < ${node.value}, candidate`, node.id, 'found', pathNodes, pathEdges, 5));
+      parent = node.id;
       node = node.left;
     }
   }
 
   if (successor) {
-    steps.push(makeStep(root, `Successor of ${value} is ${successor.value}`, [...pathNodes.entries()], [...pathEdges], 7));
+    push(makeStep(root, `Successor of ${value} is ${successor.value}`, [...pathNodes.entries()], [...pathEdges], 7));
   } else {
-    steps.push(makeStep(root, `No successor for ${value}`, [...pathNodes.entries()], [...pathEdges], 7));
+    push(makeStep(root, `No successor for ${value}`, [...pathNodes.entries()], [...pathEdges], 7));
   }
   return { result: successor?.value ?? null, steps };
 }
 
+// ── Floor / Ceiling / Nearest ──────────────────────────────────────────────
+//
+// Unlike predecessor and successor these accept keys that are in the tree,
+// and the value itself need not be. Only the best candidate so far is marked.
+//
+// Floor pseudocode (0-indexed); ceiling swaps the two directions:
+//  0: floor = null
+//  1: while node != null
+//  2:   if value == node.key
+//  3:     return node
+//  4:   else if value < node.key
+//  5:     go left
+//  6:   else
+//  7:     floor = node
+//  8:     go right
+//  9: return floor
+
+export function findFloor(root: TreeNode | null, value: number): { result: number | null; steps: AnimationStep[] } {
+  return findBound(root, value, 'floor');
+}
+
+export function findCeiling(root: TreeNode | null, value: number): { result: number | null; steps: AnimationStep[] } {
+  return findBound(root, value, 'ceiling');
+}
+
+function findBound(
+  root: TreeNode | null,
+  value: number,
+  bound: 'floor' | 'ceiling',
+): { result: number | null; steps: AnimationStep[] } {
+  const steps: AnimationStep[] = [];
+  const pathEdges: HighlightEdge[] = [];
+  const pathNodes = new Map<NodeId, HighlightType>();
+  const isFloor = bound === 'floor';
+  let best: TreeNode | null = null;
+  let node = root;
+  let parent: NodeId | null = null;
+
+  const push = (step: AnimationStep) =>
+    steps.push(watch(step, { value, node: node?.value ?? null, [bound]: best?.value ?? null }));
+
+  push(makeStep(root, `Finding the ${bound} of ${value}`, [], [], 0));
+
+  while (node) {
+    if (parent !== null) pathEdges.push([parent, node.id]);
+    pathNodes.set(node.id, 'visiting');
+    push(makeTraversalStep(root, `Visit ${node.value}`, node.id, 'visiting', pathNodes, pathEdges, 1));
+
+    if (value === node.value) {
+      if (best) pathNodes.set(best.id, 'visiting');
+      best = node;
+      pathNodes.set(node.id, 'found');
+      push(makeTraversalStep(root, `${value} is in the tree: it is its own ${bound}`, node.id, 'found', pathNodes, pathEdges, 3));
+      push(makeStep(root, `Result: ${bound} of ${value} is ${value}`, [...pathNodes.entries()], [...pathEdges], 3));
+      return { result: value, steps };
+    }
+
+    // Both descend towards value; a node only counts when it is on the right side of it
+    const goLeft = value < node.value;
+    const dir = goLeft ? 'left' : 'right';
+    const cmp = goLeft ? '<' : '>';
+    if (goLeft !== isFloor) {
+      if (best) pathNodes.set(best.id, 'visiting');
+      best = node;
+      pathNodes.set(node.id, 'found');
+      push(makeTraversalStep(root, `${value} ${cmp} ${node.value}: best ${bound} so far, go ${dir}`, node.id, 'found', pathNodes, pathEdges, 7));
+    } else {
+      push(makeTraversalStep(root, `${value} ${cmp} ${node.value}, go ${dir}`, node.id, 'visiting', pathNodes, pathEdges, 5));
+    }
+    parent = node.id;
+    node = goLeft ? node.left : node.right;
+  }
+
+  if (best) {
+    push(makeStep(root, `Result: ${bound} of ${value} is ${best.value}`, [...pathNodes.entries()], [...pathEdges], 9));
+  } else {
+    const side = isFloor ? `<= ${value}` : `>= ${value}`;
+    push(makeStep(root, `No key ${side}: ${value} has no ${bound}`, [...pathNodes.entries()], [...pathEdges], 9));
+  }
+  return { result: best?.value ?? null, steps };
+}
+
+// Nearest pseudocode (0-indexed):
+//  0: nearest = null
+//  1: while node != null
+//  2:   if node is closer to value than nearest   (ties: smaller key)
+//  3:     nearest = node
+//  4:   if value == node.key
+//  5:     return node
+//  6:   else if value < node.key
+//  7:     go left
+//  8:   else go right
+//  9: return nearest
+//
+// Every key closer than the current node lies on the way down towards value.
+
+export function findNearest(root: TreeNode | null, value: number): { result: number | null; steps: AnimationStep[] } {
+  const steps: AnimationStep[] = [];
+  const pathEdges: HighlightEdge[] = [];
+  const pathNodes = new Map<NodeId, HighlightType>();
+  let nearest: TreeNode | null = null;
+  let node = root;
+  let parent: NodeId | null = null;
+
+  const distance = (n: TreeNode) => Math.abs(n.value - value);
+  const push = (step: AnimationStep) =>
+    steps.push(watch(step, { value, node: node?.value ?? null, nearest: nearest?.value ?? null }));
+
+  push(makeStep(root, `Finding the key nearest to ${value}`, [], [], 0));
+
+  while (node) {
+    if (parent !== null) pathEdges.push([parent, node.id]);
+    pathNodes.set(node.id, 'visiting');
+    push(makeTraversalStep(root, `Visit ${node.value} (distance ${distance(node)})`, node.id, 'visiting', pathNodes, pathEdges, 1));
+
+    const closer =
+      !nearest ||
+      distance(node) < distance(nearest) ||
+      (distance(node) === distance(nearest) && node.value < nearest.value);
+    if (closer) {
+      if (nearest) pathNodes.set(nearest.id, 'visiting');
+      nearest = node;
+      pathNodes.set(node.id, 'found');
+      push(makeTraversalStep(root, `${node.value} is the nearest so far`, node.id, 'found', pathNodes, pathEdges, 3));
+    }
+
+    const type = pathNodes.get(node.id)!;
+    if (value === node.value) {
+      push(makeTraversalStep(root, `${value} is in the tree: distance 0`, node.id, 'found', pathNodes, pathEdges, 5));
+      push(makeStep(root, `Result: nearest key to ${value} is ${value}`, [...pathNodes.entries()], [...pathEdges], 5));
+      return { result: value, steps };
+    } else if (value < node.value) {
+      push(makeTraversalStep(root, `${value} < ${node.value}, go left`, node.id, type, pathNodes, pathEdges, 7));
+      parent = node.id;
+      node = node.left;
+    } else {
+      push(makeTraversalStep(root, `${value} > ${node.value}, go right`, node.id, type, pathNodes, pathEdges, 8));
+      parent = node.id;
+      node = node.right;
+    }
+  }
+
+  if (nearest) {
+    push(makeStep(root, `Result: nearest key to ${value} is ${nearest.value}`, [...pathNodes.entries()], [...pathEdges], 9));
+  } else {
+    push(makeStep(root, `The tree is empty: no nearest key`, [], [], 9));
+  }
+  return { result: nearest?.value ?? null, steps };
+}
+
 // ── Select k-th smallest ──────────────────────────────────────────────────
 // Pseudocode (0-indexed):
 //  0: count = 0, result = null
@@ -504,52 +892,374 @@ export function findSuccessor(
 //  4:   result = node.key
 //  5: inorder(node.right)
 //  6: return result
+//
+// A node holding several copies of its key ('count' duplicate policy)
+// advances the count by all of them at once.
 
 export function selectKth(
   root: TreeNode | null,
   k: number,
 ): { result: number | null; steps: AnimationStep[] } {
   const steps: AnimationStep[] = [];
-  const visitedNodes = new Map<number, HighlightType>();
-  const visitedEdges: Array<[number, number]> = [];
+  const visitedNodes = new Map<NodeId, HighlightType>();
+  const visitedEdges: HighlightEdge[] = [];
   let count = 0;
   let result: number | null = null;
 
-  steps.push(makeStep(root, `Select ${k}-th smallest`, [], [], 0));
+  let current: number | null = null;
+  const push = (step: AnimationStep) => steps.push(watch(step, { k, node: current, count, result }));
+
+  push(makeStep(root, `Select ${k}-th smallest`, [], [], 0));
 
   function walk(node: TreeNode | null) {
     if (!node || result !== null) return;
 
-    if (node.left) visitedEdges.push([node.value, node.left.value]);
+    if (node.left) visitedEdges.push([node.id, node.left.id]);
     walk(node.left);
+    if (result !== null) return;
 
-    count++;
-    visitedNodes.set(node.value, 'visiting');
-    steps.push(makeTraversalStep(root, `Visit ${node.value} (count=${count})`, node.value, 'visiting', visitedNodes, visitedEdges, 2));
+    current = node.value;
+    count += node.count ?? 1;
+    visitedNodes.set(node.id, 'visiting');
+    push(makeTraversalStep(root, `Visit ${node.value} (count=${count})`, node.id, 'visiting', visitedNodes, visitedEdges, 2));
 
-    if (count === k) {
+    if (k > 0 && count >= k) {
       result = node.value;
-      visitedNodes.set(node.value, 'found');
-      steps.push(makeTraversalStep(root, `${k}-th smallest is ${node.value}`, node.value, 'found', visitedNodes, visitedEdges, 4));
+      visitedNodes.set(node.id, 'found');
+      push(makeTraversalStep(root, `${k}-th smallest is ${node.value}`, node.id, 'found', visitedNodes, visitedEdges, 4));
       return;
     }
 
-    if (node.right) visitedEdges.push([node.value, node.right.value]);
+    if (node.right) visitedEdges.push([node.id, node.right.id]);
     walk(node.right);
   }
 
   walk(root);
   if (result === null) {
-    steps.push(makeStep(root, `k=${k} is out of range`, [...visitedNodes.entries()], [...visitedEdges], 6));
+    push(makeStep(root, `k=${k} is out of range`, [...visitedNodes.entries()], [...visitedEdges], 6));
   } else {
-    steps.push(makeStep(root, `Result: ${result}`, [...visitedNodes.entries()], [...visitedEdges], 6));
+    push(makeStep(root, `Result: ${result}`, [...visitedNodes.entries()], [...visitedEdges], 6));
   }
   return { result, steps };
 }
 
+// ── Rank ───────────────────────────────────────────────────────────────────
+// Rank = 1-based position in sorted order (the inverse of Select k-th).
+// Pseudocode (0-indexed):
+//  0: rank = 0
+//  1: while node != null
+//  2:   if value < node.key
+//  3:     go left
+//  4:   else if value > node.key
+//  5:     rank += size(node.left) + 1
+//  6:     go right
+//  7:   else
+//  8:     return rank + size(node.left) + 1
+//  9: return not found
+
+/** Keys in a subtree, counting every copy of a counted key. */
+function countCopies(node: TreeNode | null): number {
+  if (!node) return 0;
+  return (node.count ?? 1) + countCopies(node.left) + countCopies(node.right);
+}
+
+/** Mark every node of a subtree, e.g. the smaller keys counted towards a rank. */
+function markSubtree(node: TreeNode | null, marks: Map<NodeId, HighlightType>, type: HighlightType) {
+  if (!node) return;
+  marks.set(node.id, type);
+  markSubtree(node.left, marks, type);
+  markSubtree(node.right, marks, type);
+}
+
+export function rankOf(
+  root: TreeNode | null,
+  value: number,
+): { result: number | null; steps: AnimationStep[] } {
+  const steps: AnimationStep[] = [];
+  const pathEdges: HighlightEdge[] = [];
+  const marks = new Map<NodeId, HighlightType>();
+  let rank = 0;
+  let node = root;
+  let parent: NodeId | null = null;
+
+  const push = (step: AnimationStep) => steps.push(watch(step, { value, node: node?.value ?? null, rank }));
+
+  push(makeStep(root, `Finding rank of ${value}`, [], [], 0));
+
+  while (node) {
+    if (parent !== null) pathEdges.push([parent, node.id]);
+    marks.set(node.id, 'visiting');
+    push(makeTraversalStep(root, `Visit ${node.value} (rank so far ${rank})`, node.id, 'visiting', marks, pathEdges, 1));
+
+    if (value < node.value) {
+      push(makeTraversalStep(root, `${value} < ${node.value}, go left`, node.id, 'visiting', marks, pathEdges, 3));
+      parent = node.id;
+      node = node.left;
+    } else if (value > node.value) {
+      // Everything in the left subtree and the node itself is smaller
+      const smaller = countCopies(node.left) + (node.count ?? 1);
+      rank += smaller;
+      markSubtree(node.left, marks, 'path');
+      marks.set(node.id, 'path');
+      push(makeTraversalStep(root, `${value} > ${node.value}: ${smaller} smaller key(s), rank = ${rank}`, node.id, 'path', marks, pathEdges, 5));
+      parent = node.id;
+      node = node.right;
+    } else {
+      rank += countCopies(node.left) + (node.count ?? 1);
+      markSubtree(node.left, marks, 'path');
+      marks.set(node.id, 'found');
+      push(makeTraversalStep(root, `Found ${value}: rank = ${rank}`, node.id, 'found', marks, pathEdges, 8));
+      push(makeStep(root, `Result: ${value} is the ${rank}-th smallest`, [...marks.entries()], [...pathEdges], 8));
+      return { result: rank, steps };
+    }
+  }
+
+  push(makeStep(root, `${value} not found`, [...marks.entries()], [...pathEdges], 9));
+  return { result: null, steps };
+}
+
+// ── Range queries ──────────────────────────────────────────────────────────
+// Pseudocode (0-indexed); rangeCount has `count++` on line 5:
+//  0: if node == null: return
+//  1: if lo < node.key
+//  2:   rangeSearch(node.left)
+//  3: else skip node.left        (every key there is below lo)
+//  4: if lo <= node.key <= hi
+//  5:   report node.key
+//  6: if node.key < hi
+//  7:   rangeSearch(node.right)
+//  8: else skip node.right       (every key there is above hi)
+//
+// Skipped subtrees are never entered; their nodes are marked 'pruned'.
+
+export function rangeSearch(
+  root: TreeNode | null,
+  lo: number,
+  hi: number,
+): { result: number[]; steps: AnimationStep[] } {
+  return rangeQuery(root, lo, hi, 'rangeSearch');
+}
+
+export function rangeCount(
+  root: TreeNode | null,
+  lo: number,
+  hi: number,
+): { result: number; steps: AnimationStep[] } {
+  const { result, steps } = rangeQuery(root, lo, hi, 'rangeCount');
+  return { result: result.length, steps };
+}
+
+function rangeQuery(
+  root: TreeNode | null,
+  lo: number,
+  hi: number,
+  fn: 'rangeSearch' | 'rangeCount',
+): { result: number[]; steps: AnimationStep[] } {
+  if (lo > hi) [lo, hi] = [hi, lo];
+  const steps: AnimationStep[] = [];
+  const marks = new Map<NodeId, HighlightType>();
+  const edges: HighlightEdge[] = [];
+  const keys: number[] = [];
+  const counting = fn === 'rangeCount';
+  let current: number | null = null;
+
+  const calls = createCallStack(fn);
+  const push = (step: AnimationStep) => {
+    const variables: Record<string, number | null> = { lo, hi, node: current };
+    if (counting) variables.count = keys.length;
+    steps.push(watch(calls.attach(step), variables));
+  };
+
+  push(makeStep(root, `${counting ? 'Counting' : 'Finding'} keys in [${lo}, ${hi}]`, [], [], 0));
+
+  function walk(node: TreeNode) {
+    calls.enter(node);
+    current = node.value;
+    marks.set(node.id, 'visiting');
+    push(makeTraversalStep(root, `Visit ${node.value}`, node.id, 'visiting', marks, edges, 0));
+
+    if (lo < node.value) {
+      if (node.left) {
+        push(makeTraversalStep(root, `${lo} < ${node.value}: go left`, node.id, 'visiting', marks, edges, 2));
+        edges.push([node.id, node.left.id]);
+        walk(node.left);
+        current = node.value;
+      }
+    } else if (node.left) {
+      markSubtree(node.left, marks, 'pruned');
+      const reason = `${node.value} <= ${lo}: the left subtree is all below ${lo}, skip it`;
+      push(makeTraversalStep(root, reason, node.id, 'visiting', marks, edges, 3));
+    }
+
+    if (lo <= node.value && node.value <= hi) {
+      keys.push(node.value);
+      marks.set(node.id, 'found');
+      const what = counting ? `count = ${keys.length}` : 'report it';
+      push(makeTraversalStep(root, `${node.value} is in range, ${what}`, node.id, 'found', marks, edges, 5));
+    } else {
+      marks.set(node.id, 'path');
+      push(makeTraversalStep(root, `${node.value} is outside [${lo}, ${hi}]`, node.id, 'path', marks, edges, 4));
+    }
+    const mark = marks.get(node.id)!;
+
+    if (node.value < hi) {
+      if (node.right) {
+        push(makeTraversalStep(root, `${node.value} < ${hi}: go right`, node.id, mark, marks, edges, 7));
+        edges.push([node.id, node.right.id]);
+        walk(node.right);
+      }
+    } else if (node.right) {
+      markSubtree(node.right, marks, 'pruned');
+      const reason = `${node.value} >= ${hi}: the right subtree is all above ${hi}, skip it`;
+      push(makeTraversalStep(root, reason, node.id, mark, marks, edges, 8));
+    }
+    calls.leave();
+  }
+
+  if (root) walk(root);
+  current = null;
+
+  let summary: string;
+  if (counting) summary = `${keys.length} key(s) in [${lo}, ${hi}]`;
+  else summary = keys.length > 0 ? `Keys in [${lo}, ${hi}]: ${keys.join(', ')}` : `No keys in [${lo}, ${hi}]`;
+  push(makeStep(root, summary, [...marks.entries()], [...edges]));
+  return { result: keys, steps };
+}
+
+// ── Lowest common ancestor / distance ──────────────────────────────────────
+// LCA pseudocode (0-indexed):
+//  0: node = root
+//  1: while node != null
+//  2:   if a < node.key and b < node.key
+//  3:     node = node.left
+//  4:   else if a > node.key and b > node.key
+//  5:     node = node.right
+//  6:   else break              (the paths to a and b split here)
+//  7: check a and b are below node
+//  8: return node
+//
+// Distance pseudocode (0-indexed):
+//  0: lca = LCA(a, b)
+//  1: da = edges from lca down to a
+//  2: db = edges from lca down to b
+//  3: return da + db
+//
+// The shared root → LCA path keeps the usual edge colour; the branches below
+// it are drawn 'first' (towards a) and 'second' (towards b).
+
+const LCA_LINES = { walk: 1, left: 3, right: 5, split: 6, branchA: 7, branchB: 7, result: 8 };
+const DISTANCE_LINES = { walk: 0, left: 0, right: 0, split: 0, branchA: 1, branchB: 2, result: 3 };
+
+export function lowestCommonAncestor(
+  root: TreeNode | null,
+  a: number,
+  b: number,
+): { result: number | null; steps: AnimationStep[] } {
+  const { lca, steps } = traceLca(root, a, b, false);
+  return { result: lca, steps };
+}
+
+export function distanceBetween(
+  root: TreeNode | null,
+  a: number,
+  b: number,
+): { result: number | null; steps: AnimationStep[] } {
+  const { distance, steps } = traceLca(root, a, b, true);
+  return { result: distance, steps };
+}
+
+function traceLca(
+  root: TreeNode | null,
+  a: number,
+  b: number,
+  measure: boolean,
+): { lca: number | null; distance: number | null; steps: AnimationStep[] } {
+  const lines = measure ? DISTANCE_LINES : LCA_LINES;
+  const steps: AnimationStep[] = [];
+  const marks = new Map<NodeId, HighlightType>();
+  const edges: HighlightEdge[] = [];
+  let node = root;
+  let parent: NodeId | null = null;
+  let lca: TreeNode | null = null;
+  let da: number | null = null;
+  let db: number | null = null;
+
+  const push = (step: AnimationStep) => {
+    const variables: Record<string, number | null> = { a, b, node: node?.value ?? null, lca: lca?.value ?? null };
+    if (measure) Object.assign(variables, { da, db });
+    steps.push(watch(step, variables));
+  };
+  const fail = (description: string) => {
+    push(makeStep(root, description, [...marks.entries()], [...edges], lines.result));
+    return { lca: null, distance: null, steps };
+  };
+
+  push(makeStep(root, measure ? `Finding the distance between ${a} and ${b}` : `Finding the LCA of ${a} and ${b}`, [], [], 0));
+
+  while (node) {
+    if (parent !== null) edges.push([parent, node.id]);
+    marks.set(node.id, 'visiting');
+    push(makeTraversalStep(root, `Visit ${node.value}`, node.id, 'visiting', marks, edges, lines.walk));
+
+    if (a < node.value && b < node.value) {
+      push(makeTraversalStep(root, `${a} and ${b} are both < ${node.value}, go left`, node.id, 'visiting', marks, edges, lines.left));
+    } else if (a > node.value && b > node.value) {
+      push(makeTraversalStep(root, `${a} and ${b} are both > ${node.value}, go right`, node.id, 'visiting', marks, edges, lines.right));
+    } else {
+      lca = node;
+      break;
+    }
+    parent = node.id;
+    node = a < node.value ? node.left : node.right;
+  }
+
+  if (!lca) return fail(`Fell off the tree: neither ${a} nor ${b} is in it`);
+  const split = lca;
+  marks.set(split.id, 'found');
+  push(makeTraversalStep(root, `The paths to ${a} and ${b} split at ${split.value}`, split.id, 'found', marks, edges, lines.split));
+
+  /** Walk from the split point down to `target`; returns its depth below it, or null if absent */
+  function descend(target: number, color: EdgeHighlight, line: number): number | null {
+    let cur = split;
+    let depth = 0;
+    while (cur.value !== target) {
+      const next = target < cur.value ? cur.left : cur.right;
+      if (!next) {
+        push(makeStep(root, `${target} is not in the tree`, [...marks.entries()], [...edges], line, cur.id));
+        return null;
+      }
+      edges.push([cur.id, next.id, color]);
+      cur = next;
+      depth++;
+      node = cur;
+      marks.set(cur.id, 'visiting');
+      push(makeTraversalStep(root, `Towards ${target}: visit ${cur.value}`, cur.id, 'visiting', marks, edges, line));
+    }
+    const where = depth === 0 ? 'it is the split point itself' : `${depth} edge(s) below ${split.value}`;
+    push(makeTraversalStep(root, `Reached ${target}: ${where}`, cur.id, marks.get(cur.id)!, marks, edges, line));
+    return depth;
+  }
+
+  da = descend(a, 'first', lines.branchA);
+  if (da === null) return fail(`${a} is missing, so there is no ${measure ? 'distance' : 'common ancestor'}`);
+  db = descend(b, 'second', lines.branchB);
+  if (db === null) return fail(`${b} is missing, so there is no ${measure ? 'distance' : 'common ancestor'}`);
+
+  node = split;
+  const summary = measure
+    ? `Result: distance between ${a} and ${b} is ${da} + ${db} = ${da + db}`
+    : `Result: LCA of ${a} and ${b} is ${split.value}`;
+  push(makeStep(root, summary, [...marks.entries()], [...edges], lines.result, split.id));
+  return { lca: split.value, distance: da + db, steps };
+}
+
 // ── Create random tree ─────────────────────────────────────────────────────
 
-export function createRandomTree(size: number): { root: TreeNode | null; steps: AnimationStep[] } {
+export function createRandomTree(
+  size: number,
+  insert: (root: TreeNode | null, value: number) => { root: TreeNode | null; steps: AnimationStep[] } = insertNode,
+  label = 'BST',
+): { root: TreeNode | null; steps: AnimationStep[] } {
   const allSteps: AnimationStep[] = [];
   let root: TreeNode | null = null;
 
@@ -560,12 +1270,19 @@ export function createRandomTree(size: number): { root: TreeNode | null; steps:
   }
 
   for (const v of values) {
-    const { root: newRoot, steps } = insertNode(root, v);
+    const { root: newRoot, steps } = insert(root, v);
     root = newRoot;
     allSteps.push(...steps);
   }
 
-  allSteps.push(makeStep(root, `Created BST with ${size} nodes`));
+  // For balanced variants, compare against a plain BST built from the same order
+  let summary = `Created ${label} with ${size} nodes`;
+  if (insert !== insertNode) {
+    let plain: TreeNode | null = null;
+    for (const v of values) plain = insertPlain(plain, v);
+    summary += ` (h=${treeHeight(root)}; plain BST from the same values: h=${treeHeight(plain)})`;
+  }
+  allSteps.push(makeStep(root, summary));
   return { root, steps: allSteps };
 }
 
@@ -573,7 +1290,7 @@ export function createRandomTree(size: number): { root: TreeNode | null; steps:
 
 /** Plain insert without animation steps (used for initial tree building). */
 function insertPlain(root: TreeNode | null, value: number): TreeNode {
-  if (!root) return { value, left: null, right: null };
+  if (!root) return createNode(value);
   if (value < root.value) root.left = insertPlain(root.left, value);
   else if (value > root.value) root.right = insertPlain(root.right, value);
   return root;
@@ -608,4 +1325,4 @@ export function createDefaultTree(): TreeNode | null {
 }
 
 // Re-export helpers used by other modules
-export { findMin, findMax };
+export { findMin, findMax, rotateLeft, rotateRight, replaceChild, makeStep, makeTraversalStep, insertPlain };
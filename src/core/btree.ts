@@ -0,0 +1,360 @@
+import type { BTreeNode, AnimationStep, HighlightType, OperationType } from '../types';
+
+/**
+ * B-tree of configurable order m (maximum number of children per node):
+ *  - every node holds at most m-1 keys
+ *  - every non-root node holds at least ⌈m/2⌉-1 keys
+ *  - all leaves sit on the same level
+ *
+ * Order 4 gives the classic 2-3-4 tree. Nodes are identified in highlights
+ * and edges by their keys (unique across the tree); a node's first key
+ * stands in for the node itself.
+ */
+
+export const DEFAULT_BTREE_ORDER = 4;
+export const BTREE_ORDERS = [3, 4, 5, 6];
+
+/** Operations the sidebar offers while in B-tree mode. */
+export const BTREE_OPERATIONS: OperationType[] = ['create', 'search', 'insert', 'remove'];
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+export function cloneBTree(node: BTreeNode | null): BTreeNode | null {
+  if (!node) return null;
+  return { keys: [...node.keys], children: node.children.map((c) => cloneBTree(c)!) };
+}
+
+/** Total number of keys. */
+export function countKeys(node: BTreeNode | null): number {
+  if (!node) return 0;
+  return node.keys.length + node.children.reduce((sum, c) => sum + countKeys(c), 0);
+}
+
+/** Number of levels (all leaves share the same depth). */
+export function bTreeHeight(node: BTreeNode | null): number {
+  let h = 0;
+  for (let cur = node; cur; cur = cur.children[0] ?? null) h++;
+  return h;
+}
+
+/** Keys in level order, e.g. for rebuilding the tree as another kind. */
+export function bTreeKeys(root: BTreeNode | null): number[] {
+  const out: number[] = [];
+  const queue = root ? [root] : [];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    out.push(...node.keys);
+    queue.push(...node.children);
+  }
+  return out;
+}
+
+function isLeaf(node: BTreeNode): boolean {
+  return node.children.length === 0;
+}
+
+function minKeys(order: number): number {
+  return Math.ceil(order / 2) - 1;
+}
+
+/** Index of the first key >= value (keys.length when all are smaller). */
+function lowerBound(keys: number[], value: number): number {
+  let i = 0;
+  while (i < keys.length && keys[i] < value) i++;
+  return i;
+}
+
+function makeBTreeStep(
+  root: BTreeNode | null,
+  description: string,
+  highlights: Array<[number, HighlightType]> = [],
+  edges: Array<[number, number]> = [],
+  codeLine?: number,
+  activeNode?: number,
+): AnimationStep {
+  return {
+    tree: null,
+    bTree: cloneBTree(root),
+    description,
+    highlightNodes: new Map(highlights),
+    highlightEdges: [...edges],
+    codeLine,
+    activeNode,
+  };
+}
+
+/** Highlight every key of `node` with `type`. */
+function nodeHighlights(node: BTreeNode, type: HighlightType): Array<[number, HighlightType]> {
+  return node.keys.map((k) => [k, type]);
+}
+
+/** A node plus the child index taken from it on the way down. */
+interface PathEntry {
+  node: BTreeNode;
+  index: number;
+}
+
+// ── Search ─────────────────────────────────────────────────────────────────
+// Pseudocode lines (0-indexed):
+//  0: i = first index with keys[i] >= value
+//  1: if i < n and keys[i] == value
+//  2:   return (node, i)
+//  3: else if node is a leaf
+//  4:   return null
+//  5: else search children[i]
+
+export function searchBTree(
+  root: BTreeNode | null,
+  value: number,
+): { found: boolean; steps: AnimationStep[] } {
+  const steps: AnimationStep[] = [];
+  const edges: Array<[number, number]> = [];
+  let node = root;
+
+  while (node) {
+    const i = lowerBound(node.keys, value);
+    steps.push(makeBTreeStep(root, `Scan [${node.keys.join(', ')}] for ${value}`, nodeHighlights(node, 'visiting'), edges, 0, node.keys[0]));
+
+    if (i < node.keys.length && node.keys[i] === value) {
+      steps.push(makeBTreeStep(root, `Value ${value} is found.`, [...nodeHighlights(node, 'visiting'), [value, 'found']], edges, 2, node.keys[0]));
+      return { found: true, steps };
+    }
+    if (isLeaf(node)) {
+      steps.push(makeBTreeStep(root, `${value} not found in tree`, nodeHighlights(node, 'visiting'), edges, 4, node.keys[0]));
+      return { found: false, steps };
+    }
+
+    const child = node.children[i];
+    edges.push([node.keys[0], child.keys[0]]);
+    steps.push(makeBTreeStep(root, `Descend into child ${i}`, nodeHighlights(node, 'visiting'), edges, 5, node.keys[0]));
+    node = child;
+  }
+
+  steps.push(makeBTreeStep(root, `${value} not found in tree`, [], [], 4));
+  return { found: false, steps };
+}
+
+// ── Insert ─────────────────────────────────────────────────────────────────
+// Pseudocode lines (0-indexed):
+//  0: find leaf: descend via first keys[i] >= value
+//  1: insert value into leaf in order
+//  2: while node has more than m-1 keys
+//  3:   split around the median key
+//  4:   push median up into parent
+//  5:   if node was the root: grow a new root
+
+export function insertBTree(
+  root: BTreeNode | null,
+  value: number,
+  order: number,
+): { root: BTreeNode; steps: AnimationStep[] } {
+  const steps: AnimationStep[] = [];
+  const edges: Array<[number, number]> = [];
+
+  if (!root) {
+    const newRoot: BTreeNode = { keys: [value], children: [] };
+    steps.push(makeBTreeStep(newRoot, `Insert ${value} as root`, [[value, 'inserting']], [], 1, value));
+    return { root: newRoot, steps };
+  }
+
+  let tree = cloneBTree(root)!;
+  const path: PathEntry[] = [];
+  let node = tree;
+
+  for (;;) {
+    const i = lowerBound(node.keys, value);
+    steps.push(makeBTreeStep(tree, `Scan [${node.keys.join(', ')}] for ${value}`, nodeHighlights(node, 'visiting'), edges, 0, node.keys[0]));
+    if (node.keys[i] === value) {
+      steps.push(makeBTreeStep(tree, `${value} is already in the tree`, [[value, 'found']], edges, 0, node.keys[0]));
+      return { root: tree, steps };
+    }
+    if (isLeaf(node)) {
+      node.keys.splice(i, 0, value);
+      steps.push(makeBTreeStep(tree, `Inserted ${value} into leaf`, [[value, 'inserting']], edges, 1, value));
+      break;
+    }
+    path.push({ node, index: i });
+    edges.push([node.keys[0], node.children[i].keys[0]]);
+    node = node.children[i];
+  }
+
+  // Split upwards while nodes overflow
+  while (node.keys.length > order - 1) {
+    steps.push(makeBTreeStep(tree, `Node [${node.keys.join(', ')}] has ${node.keys.length} keys (max ${order - 1}), split`, nodeHighlights(node, 'removing'), edges, 2, node.keys[0]));
+
+    const mid = Math.floor(node.keys.length / 2);
+    const median = node.keys[mid];
+    const right: BTreeNode = {
+      keys: node.keys.slice(mid + 1),
+      children: node.children.slice(mid + 1),
+    };
+    node.keys = node.keys.slice(0, mid);
+    node.children = node.children.slice(0, mid + 1);
+
+    const parentEntry = path.pop();
+    if (!parentEntry) {
+      tree = { keys: [median], children: [node, right] };
+      steps.push(makeBTreeStep(tree, `Split around ${median}; ${median} becomes the new root`, [[median, 'inserting'], ...nodeHighlights(node, 'visiting'), ...nodeHighlights(right, 'visiting')], [], 5, median));
+      break;
+    }
+
+    const { node: parent, index } = parentEntry;
+    parent.keys.splice(index, 0, median);
+    parent.children.splice(index + 1, 0, right);
+    edges.length = Math.min(edges.length, path.length);
+    steps.push(makeBTreeStep(tree, `Split around ${median}; push ${median} up`, [[median, 'inserting'], ...nodeHighlights(node, 'visiting'), ...nodeHighlights(right, 'visiting')], edges, 4, median));
+    node = parent;
+  }
+
+  steps.push(makeBTreeStep(tree, `Inserted ${value}`, [[value, 'inserting']], edges));
+  return { root: tree, steps };
+}
+
+// ── Remove ─────────────────────────────────────────────────────────────────
+// Pseudocode lines (0-indexed):
+//  0: find node containing value
+//  1: if not found: return
+//  2: if node is internal
+//  3:   replace with predecessor, delete it from its leaf
+//  4: else remove value from leaf
+//  5: while node has fewer than ⌈m/2⌉-1 keys
+//  6:   if a sibling has a spare key
+//  7:     borrow through the parent
+//  8:   else
+//  9:     merge with sibling and separator
+// 10: if root is empty: root = its only child
+
+export function removeBTree(
+  root: BTreeNode | null,
+  value: number,
+  order: number,
+): { root: BTreeNode | null; steps: AnimationStep[] } {
+  const steps: AnimationStep[] = [];
+  const edges: Array<[number, number]> = [];
+  let tree = cloneBTree(root);
+  const path: PathEntry[] = [];
+  let node = tree;
+  let keyIndex = -1;
+
+  while (node) {
+    const i = lowerBound(node.keys, value);
+    steps.push(makeBTreeStep(tree, `Scan [${node.keys.join(', ')}] for ${value}`, nodeHighlights(node, 'visiting'), edges, 0, node.keys[0]));
+    if (node.keys[i] === value) {
+      keyIndex = i;
+      break;
+    }
+    if (isLeaf(node)) {
+      node = null;
+      break;
+    }
+    path.push({ node, index: i });
+    edges.push([node.keys[0], node.children[i].keys[0]]);
+    node = node.children[i];
+  }
+
+  if (!node || !tree) {
+    steps.push(makeBTreeStep(tree, `${value} not found`, [], edges, 1));
+    return { root: tree, steps };
+  }
+
+  steps.push(makeBTreeStep(tree, `Found ${value}, removing`, [[value, 'removing']], edges, 0, node.keys[0]));
+
+  if (!isLeaf(node)) {
+    // Swap in the predecessor (rightmost key of the left subtree)
+    path.push({ node, index: keyIndex });
+    let leaf = node.children[keyIndex];
+    edges.push([node.keys[0], leaf.keys[0]]);
+    while (!isLeaf(leaf)) {
+      path.push({ node: leaf, index: leaf.children.length - 1 });
+      const child = leaf.children[leaf.children.length - 1];
+      edges.push([leaf.keys[0], child.keys[0]]);
+      leaf = child;
+    }
+    const predecessor = leaf.keys[leaf.keys.length - 1];
+    steps.push(makeBTreeStep(tree, `${value} is in an internal node; predecessor is ${predecessor}`, [[value, 'removing'], [predecessor, 'found']], edges, 2, node.keys[0]));
+    node.keys[keyIndex] = predecessor;
+    leaf.keys.pop();
+    steps.push(makeBTreeStep(tree, `Replace ${value} with ${predecessor} and remove it from its leaf`, [[predecessor, 'found'], ...nodeHighlights(leaf, 'visiting')], edges, 3, predecessor));
+    node = leaf;
+  } else {
+    node.keys.splice(keyIndex, 1);
+    steps.push(makeBTreeStep(tree, `Removed ${value} from leaf`, nodeHighlights(node, 'visiting'), edges, 4, node.keys[0]));
+  }
+
+  // Fix underflow bottom-up
+  const min = minKeys(order);
+  while (node !== tree && node.keys.length < min) {
+    const { node: parent, index } = path.pop()!;
+    const left = index > 0 ? parent.children[index - 1] : null;
+    const right = index < parent.children.length - 1 ? parent.children[index + 1] : null;
+    edges.length = Math.min(edges.length, path.length);
+    steps.push(makeBTreeStep(tree, `Node has ${node.keys.length} keys (min ${min}), fix underflow`, nodeHighlights(parent, 'visiting'), edges, 5, parent.keys[0]));
+
+    if (left && left.keys.length > min) {
+      node.keys.unshift(parent.keys[index - 1]);
+      parent.keys[index - 1] = left.keys.pop()!;
+      if (!isLeaf(left)) node.children.unshift(left.children.pop()!);
+      steps.push(makeBTreeStep(tree, `Borrow from left sibling: ${parent.keys[index - 1]} moves up, ${node.keys[0]} moves down`, [[parent.keys[index - 1], 'found'], [node.keys[0], 'inserting']], edges, 7, node.keys[0]));
+      break;
+    }
+    if (right && right.keys.length > min) {
+      node.keys.push(parent.keys[index]);
+      parent.keys[index] = right.keys.shift()!;
+      if (!isLeaf(right)) node.children.push(right.children.shift()!);
+      steps.push(makeBTreeStep(tree, `Borrow from right sibling: ${parent.keys[index]} moves up, ${node.keys[node.keys.length - 1]} moves down`, [[parent.keys[index], 'found'], [node.keys[node.keys.length - 1], 'inserting']], edges, 7, node.keys[0]));
+      break;
+    }
+
+    // Merge with a sibling, pulling the separator key down
+    if (left) {
+      const separator = parent.keys.splice(index - 1, 1)[0];
+      left.keys.push(separator, ...node.keys);
+      left.children.push(...node.children);
+      parent.children.splice(index, 1);
+      steps.push(makeBTreeStep(tree, `Merge with left sibling and separator ${separator}`, [...nodeHighlights(left, 'visiting'), [separator, 'found']], edges, 9, left.keys[0]));
+    } else {
+      const separator = parent.keys.splice(index, 1)[0];
+      node.keys.push(separator, ...right!.keys);
+      node.children.push(...right!.children);
+      parent.children.splice(index + 1, 1);
+      steps.push(makeBTreeStep(tree, `Merge with right sibling and separator ${separator}`, [...nodeHighlights(node, 'visiting'), [separator, 'found']], edges, 9, node.keys[0]));
+    }
+    node = parent;
+  }
+
+  if (tree.keys.length === 0) {
+    tree = tree.children[0] ?? null;
+    steps.push(makeBTreeStep(tree, `Root is empty, its child becomes the root`, [], [], 10));
+  }
+
+  steps.push(makeBTreeStep(tree, `Removal complete`, [], []));
+  return { root: tree, steps };
+}
+
+// ── Building ───────────────────────────────────────────────────────────────
+
+/** Build a B-tree by inserting `values` in order (no steps kept). */
+export function buildBTree(values: number[], order: number): BTreeNode | null {
+  let root: BTreeNode | null = null;
+  for (const v of values) root = insertBTree(root, v, order).root;
+  return root;
+}
+
+export function createRandomBTree(size: number, order: number): { root: BTreeNode | null; steps: AnimationStep[] } {
+  const allSteps: AnimationStep[] = [];
+  let root: BTreeNode | null = null;
+
+  const values = new Set<number>();
+  while (values.size < size) {
+    values.add(Math.floor(Math.random() * 99) + 1);
+  }
+
+  for (const v of values) {
+    const { root: newRoot, steps } = insertBTree(root, v, order);
+    root = newRoot;
+    allSteps.push(...steps);
+  }
+
+  allSteps.push(makeBTreeStep(root, `Created B-tree of order ${order} with ${size} keys`));
+  return { root, steps: allSteps };
+}
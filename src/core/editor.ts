@@ -0,0 +1,141 @@
+import type { TreeNode, NodeId, OperationType, DuplicatePolicy } from '../types';
+import { cloneTree, createNode, findNodeById } from './bst';
+
+/**
+ * Free-form edits for building "is this a valid BST?" exercises.
+ *
+ * Unlike the operations in bst.ts these do not preserve the search-tree
+ * ordering: any shape and any keys are allowed, and `findViolations`
+ * reports which nodes break the ordering. Every edit returns a new tree,
+ * or an error message and leaves the input untouched. Nodes are addressed
+ * by id. Equal keys follow the duplicate policy: separate nodes under
+ * 'left' and 'right', one node's count under 'count', and none otherwise.
+ */
+
+export type ChildSide = 'left' | 'right';
+
+export type EditResult =
+  | { ok: true; tree: TreeNode | null; /** Set when a copy was counted instead of added */ message?: string }
+  | { ok: false; error: string };
+
+/** Operations that assume the ordering, blocked while the tree is invalid */
+export const ORDERED_OPS: OperationType[] = [
+  'search',
+  'insert',
+  'remove',
+  'predecessor',
+  'successor',
+  'floor',
+  'ceiling',
+  'nearest',
+  'selectKth',
+  'rank',
+  'rangeSearch',
+  'rangeCount',
+  'lca',
+  'distance',
+];
+
+// ── Validation ─────────────────────────────────────────────────────────────
+
+/**
+ * Ids of nodes whose key is out of the range their ancestors allow
+ * (e.g. a 7 somewhere in the left subtree of 5). Equal keys are allowed on
+ * either side when the duplicate policy keeps them as separate nodes.
+ */
+export function findViolations(root: TreeNode | null, duplicates: DuplicatePolicy = 'reject'): Set<NodeId> {
+  const out = new Set<NodeId>();
+  const strict = duplicates === 'reject' || duplicates === 'count';
+  const walk = (node: TreeNode | null, lo: number, hi: number) => {
+    if (!node) return;
+    if (strict ? node.value <= lo || node.value >= hi : node.value < lo || node.value > hi) out.add(node.id);
+    // Keep checking descendants against the node's own key
+    walk(node.left, lo, Math.min(hi, node.value));
+    walk(node.right, Math.max(lo, node.value), hi);
+  };
+  walk(root, -Infinity, Infinity);
+  return out;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function findParent(node: TreeNode | null, id: NodeId): TreeNode | null {
+  if (!node) return null;
+  if (node.left?.id === id || node.right?.id === id) return node;
+  return findParent(node.left, id) ?? findParent(node.right, id);
+}
+
+function findKey(node: TreeNode | null, key: number): TreeNode | null {
+  if (!node) return null;
+  if (node.value === key) return node;
+  return findKey(node.left, key) ?? findKey(node.right, key);
+}
+
+function detach(root: TreeNode, id: NodeId): TreeNode | null {
+  if (root.id === id) return null;
+  const parent = findParent(root, id)!;
+  if (parent.left?.id === id) parent.left = null;
+  else parent.right = null;
+  return root;
+}
+
+// ── Edits ──────────────────────────────────────────────────────────────────
+
+/** Move the subtree rooted at node `id` to be node `target`'s `side` child. */
+export function reattachSubtree(root: TreeNode | null, id: NodeId, target: NodeId, side: ChildSide): EditResult {
+  const copy = cloneTree(root);
+  const node = findNodeById(copy, id);
+  const dest = findNodeById(copy, target);
+  if (!copy || !node || !dest) return { ok: false, error: 'Node not found' };
+  if (node === copy) return { ok: false, error: 'The root cannot be moved' };
+  if (findNodeById(node, target)) return { ok: false, error: `${dest.value} is inside the subtree of ${node.value}` };
+  if (dest[side]) return { ok: false, error: `The ${side} child of ${dest.value} is taken by ${dest[side].value}` };
+
+  detach(copy, id);
+  dest[side] = node;
+  return { ok: true, tree: copy };
+}
+
+/** Under 'count' a leaf renamed to an existing key is merged into that node. */
+export function setKey(root: TreeNode | null, id: NodeId, key: number, duplicates: DuplicatePolicy = 'reject'): EditResult {
+  const copy = cloneTree(root);
+  const node = findNodeById(copy, id);
+  if (!node) return { ok: false, error: 'Node not found' };
+  const existing = key !== node.value ? findKey(copy, key) : null;
+  if (existing && duplicates === 'reject') return { ok: false, error: `${key} is already in the tree` };
+  if (existing && duplicates === 'count') {
+    if (node.left || node.right) return { ok: false, error: `${key} is already in the tree; only a leaf can be counted into it` };
+    existing.count = (existing.count ?? 1) + (node.count ?? 1);
+    return { ok: true, tree: detach(copy!, id), message: `Merged ${node.value} into ${key}, now ${existing.count} copies.` };
+  }
+  node.value = key;
+  return { ok: true, tree: copy };
+}
+
+/** Under 'count' an existing key gets another copy instead of a new node. */
+export function addChild(
+  root: TreeNode | null,
+  parent: NodeId,
+  side: ChildSide,
+  key: number,
+  duplicates: DuplicatePolicy = 'reject',
+): EditResult {
+  const copy = cloneTree(root);
+  const node = findNodeById(copy, parent);
+  if (!node) return { ok: false, error: 'Node not found' };
+  const existing = findKey(copy, key);
+  if (existing && duplicates === 'reject') return { ok: false, error: `${key} is already in the tree` };
+  if (existing && duplicates === 'count') {
+    existing.count = (existing.count ?? 1) + 1;
+    return { ok: true, tree: copy, message: `${key} is already in the tree: counted another copy, now ${existing.count}.` };
+  }
+  if (node[side]) return { ok: false, error: `The ${side} child of ${node.value} is taken` };
+  node[side] = createNode(key);
+  return { ok: true, tree: copy };
+}
+
+export function deleteSubtree(root: TreeNode | null, id: NodeId): EditResult {
+  const copy = cloneTree(root);
+  if (!copy || !findNodeById(copy, id)) return { ok: false, error: 'Node not found' };
+  return { ok: true, tree: detach(copy, id) };
+}
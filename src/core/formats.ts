@@ -0,0 +1,205 @@
+import type { TreeNode, DuplicatePolicy } from '../types';
+import { preorderCopies } from './variants';
+import { createNode } from './bst';
+
+/**
+ * Text formats for importing and exporting trees.
+ *
+ *  - json        nested `{ "value": 5, "left": {…}, "right": null }`
+ *  - levelorder  LeetCode-style `[5,3,8,1,4,null,9]`: breadth-first, with
+ *                `null` for missing children and trailing nulls dropped
+ *  - sequence    keys in insertion order, e.g. `5, 3, 8, 1`
+ *
+ * A key counted under the 'count' duplicate policy carries a `count` field
+ * in JSON and is written `[key, count]` in level-order; the sequence simply
+ * repeats it.
+ *
+ * Import always yields an insertion order: re-inserting a pre-order
+ * reproduces the exact shape in a plain BST under the same duplicate
+ * policy, and balanced variants rebuild from it just as they do when
+ * switching tree kind.
+ */
+
+export type TreeFormat = 'json' | 'levelorder' | 'sequence';
+
+export const TREE_FORMATS: { format: TreeFormat; label: string; placeholder: string }[] = [
+  { format: 'json', label: 'JSON', placeholder: '{ "value": 5, "left": { "value": 3, "left": null, "right": null }, "right": null }' },
+  { format: 'levelorder', label: 'Level-order (LeetCode)', placeholder: '[5,3,8,1,4,null,9]' },
+  { format: 'sequence', label: 'Insertion sequence', placeholder: '5, 3, 8, 1, 4, 9' },
+];
+
+export type ImportResult =
+  | { ok: true; values: number[] }
+  | { ok: false; error: string };
+
+// ── Export ─────────────────────────────────────────────────────────────────
+
+interface JsonNode {
+  value: number;
+  count?: number;
+  left: JsonNode | null;
+  right: JsonNode | null;
+}
+
+/** Drop variant bookkeeping (height, colour, priority) from the output. */
+function toJsonNode(node: TreeNode | null): JsonNode | null {
+  if (!node) return null;
+  const count = node.count !== undefined ? { count: node.count } : {};
+  return { value: node.value, ...count, left: toJsonNode(node.left), right: toJsonNode(node.right) };
+}
+
+type LevelOrderEntry = number | [key: number, count: number] | null;
+
+function toLevelOrder(root: TreeNode | null): LevelOrderEntry[] {
+  const out: LevelOrderEntry[] = [];
+  const queue: Array<TreeNode | null> = [root];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    out.push(node ? (node.count !== undefined ? [node.value, node.count] : node.value) : null);
+    if (node) queue.push(node.left, node.right);
+  }
+  while (out.length > 0 && out[out.length - 1] === null) out.pop();
+  return out;
+}
+
+export function exportTree(root: TreeNode | null, format: TreeFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(toJsonNode(root), null, 2);
+    case 'levelorder':
+      return JSON.stringify(toLevelOrder(root));
+    case 'sequence':
+      return preorderCopies(root).join(', ');
+  }
+}
+
+// ── Import ─────────────────────────────────────────────────────────────────
+
+function isKey(v: unknown): v is number {
+  return typeof v === 'number' && Number.isSafeInteger(v);
+}
+
+/**
+ * Returns an error message if `root` breaks the BST ordering. Equal keys are
+ * allowed only on the side the duplicate policy inserts them, so that
+ * re-inserting the pre-order gives back the same shape.
+ */
+export function checkBST(root: TreeNode | null, duplicates: DuplicatePolicy = 'reject'): string | null {
+  const check = (node: TreeNode | null, lo: number | null, hi: number | null): string | null => {
+    if (!node) return null;
+    if (lo !== null && (node.value < lo || (node.value === lo && duplicates !== 'right'))) {
+      return node.value === lo
+        ? `Duplicate key ${node.value} in the right subtree`
+        : `${node.value} is in the right subtree of ${lo} but is not larger`;
+    }
+    if (hi !== null && (node.value > hi || (node.value === hi && duplicates !== 'left'))) {
+      return node.value === hi
+        ? `Duplicate key ${node.value} in the left subtree`
+        : `${node.value} is in the left subtree of ${hi} but is not smaller`;
+    }
+    return check(node.left, lo, node.value) ?? check(node.right, node.value, hi);
+  };
+  return check(root, null, null);
+}
+
+/** A node for `value`, with `count` copies when the policy counts them. */
+function parseNode(value: number, count: unknown, where: string, duplicates: DuplicatePolicy): TreeNode {
+  const node = createNode(value);
+  if (count === undefined) return node;
+  if (duplicates !== 'count') throw new Error(`${where} has a count without the count duplicate policy`);
+  if (!isKey(count) || count < 2) throw new Error(`${where} count must be an integer of at least 2`);
+  node.count = count;
+  return node;
+}
+
+function parseJsonTree(data: unknown, path: string, duplicates: DuplicatePolicy): TreeNode | null {
+  if (data === null) return null;
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`${path} must be a node object or null`);
+  }
+  const { value, count, left = null, right = null } = data as Record<string, unknown>;
+  if (!isKey(value)) throw new Error(`${path}.value must be an integer`);
+  return {
+    ...parseNode(value, count, path, duplicates),
+    left: parseJsonTree(left, `${path}.left`, duplicates),
+    right: parseJsonTree(right, `${path}.right`, duplicates),
+  };
+}
+
+function parseLevelOrderEntry(v: unknown, i: number, duplicates: DuplicatePolicy): TreeNode {
+  if (isKey(v)) return createNode(v);
+  if (Array.isArray(v) && v.length === 2 && isKey(v[0])) return parseNode(v[0], v[1], `Entry ${i}`, duplicates);
+  throw new Error(`Entry ${i} must be an integer, [key, count] or null`);
+}
+
+function parseLevelOrder(data: unknown, duplicates: DuplicatePolicy): TreeNode | null {
+  if (!Array.isArray(data)) throw new Error('Expected an array such as [5,3,8,null,4]');
+  const nodes = data.map((v, i) => (v === null ? null : parseLevelOrderEntry(v, i, duplicates)));
+  if (nodes.length === 0 || nodes[0] === null) return null;
+
+  const root = nodes[0];
+  const queue: TreeNode[] = [root];
+  let i = 1;
+  while (i < nodes.length) {
+    const parent = queue.shift();
+    if (!parent) throw new Error(`Entry ${i} has no parent (a null cannot have children)`);
+    for (const side of ['left', 'right'] as const) {
+      const child = i < nodes.length ? nodes[i++] : null;
+      if (child === null) continue;
+      parent[side] = child;
+      queue.push(child);
+    }
+  }
+  return root;
+}
+
+/** Keys separated by commas or spaces, optionally in brackets; duplicates are kept */
+function parseKeys(text: string): number[] {
+  const tokens = text.replace(/^\s*\[|\]\s*$/g, '').split(/[\s,]+/).filter(Boolean);
+  return tokens.map((token) => {
+    const n = /^-?\d+$/.test(token) ? Number(token) : NaN;
+    if (!isKey(n)) throw new Error(`"${token}" is not an integer`);
+    return n;
+  });
+}
+
+/** Repeated keys are left to the duplicate policy, unless it rejects them. */
+function parseSequence(text: string, duplicates: DuplicatePolicy): number[] {
+  const values: number[] = [];
+  for (const n of parseKeys(text)) {
+    if (duplicates === 'reject' && values.includes(n)) throw new Error(`Duplicate key ${n}`);
+    values.push(n);
+  }
+  return values;
+}
+
+/** Parse a free list of keys, e.g. for building a tree from it; duplicates are allowed. */
+export function parseKeyList(text: string): ImportResult {
+  try {
+    const values = parseKeys(text);
+    return values.length > 0 ? { ok: true, values } : { ok: false, error: 'Enter at least one key' };
+  } catch (e) {
+    return { ok: false, error: (e as Error).message };
+  }
+}
+
+/** Parse `text` and check it is a valid BST; nothing is modified on failure. */
+export function importTree(text: string, format: TreeFormat, duplicates: DuplicatePolicy = 'reject'): ImportResult {
+  try {
+    if (format === 'sequence') return { ok: true, values: parseSequence(text, duplicates) };
+
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return { ok: false, error: 'Not valid JSON' };
+    }
+
+    const root = format === 'json' ? parseJsonTree(data, 'root', duplicates) : parseLevelOrder(data, duplicates);
+    const problem = checkBST(root, duplicates);
+    if (problem) return { ok: false, error: `Not a binary search tree: ${problem}` };
+    return { ok: true, values: preorderCopies(root) };
+  } catch (e) {
+    return { ok: false, error: (e as Error).message };
+  }
+}
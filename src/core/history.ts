@@ -0,0 +1,86 @@
+import type { TreeNode, BTreeNode, TreeKind, OperationType, DuplicatePolicy } from '../types';
+import { getKindNames } from './variants';
+import { DUPLICATE_LABELS } from './bst';
+
+/**
+ * Undo/redo history of committed trees.
+ *
+ * Each entry is a full snapshot taken after an operation that changed the
+ * tree, so undo, redo and jumping are just moving `index`. Recording a new
+ * entry while not at the end discards the redo tail, as editors do.
+ */
+
+/**
+ * What produced an entry: an operation, the initial, shared or imported
+ * tree, a kind/order/duplicate-policy switch or a free-form edit
+ */
+export type HistoryAction = OperationType | 'initial' | 'shared' | 'import' | 'convert' | 'duplicates' | 'edit';
+
+export interface HistoryEntry {
+  action: HistoryAction;
+  /** Operation argument, e.g. the inserted value */
+  value?: number;
+  kind: TreeKind;
+  tree: TreeNode | null;
+  bTree: BTreeNode | null;
+  bTreeOrder: number;
+  /** How the plain BST treats equal keys */
+  duplicates: DuplicatePolicy;
+}
+
+export interface History {
+  entries: HistoryEntry[];
+  /** Entry currently shown */
+  index: number;
+}
+
+const MAX_HISTORY = 100;
+
+export function createHistory(initial: HistoryEntry): History {
+  return { entries: [initial], index: 0 };
+}
+
+export function pushHistory(history: History, entry: HistoryEntry): History {
+  const entries = [...history.entries.slice(0, history.index + 1), entry].slice(-MAX_HISTORY);
+  return { entries, index: entries.length - 1 };
+}
+
+export function canUndo(history: History): boolean {
+  return history.index > 0;
+}
+
+export function canRedo(history: History): boolean {
+  return history.index < history.entries.length - 1;
+}
+
+export function jumpTo(history: History, index: number): History {
+  return { ...history, index: Math.max(0, Math.min(index, history.entries.length - 1)) };
+}
+
+export function currentEntry(history: History): HistoryEntry {
+  return history.entries[history.index];
+}
+
+const ACTION_LABELS: Partial<Record<HistoryAction, string>> = {
+  initial: 'Default tree',
+  shared: 'Shared link',
+  import: 'Import',
+  edit: 'Edit',
+  create: 'Create',
+  insert: 'Insert',
+  remove: 'Remove',
+  search: 'Search',
+  rebalance: 'Rebalance',
+  buildBalanced: 'Build balanced',
+};
+
+/** Human-readable label, e.g. "Insert(42)". */
+export function describeEntry(entry: HistoryEntry): string {
+  if (entry.action === 'convert') {
+    const { label } = getKindNames(entry.kind);
+    return entry.kind === 'btree' ? `To ${label} (order ${entry.bTreeOrder})` : `To ${label}`;
+  }
+  if (entry.action === 'duplicates') return `Duplicates: ${DUPLICATE_LABELS[entry.duplicates]}`;
+  const label = ACTION_LABELS[entry.action] ?? entry.action;
+  return entry.value !== undefined ? `${label}(${entry.value})` : label;
+}
@@ -1,25 +1,37 @@
-import type { TreeNode, PositionedNode } from '../types';
+import type { TreeNode, PositionedNode, NodeId, NodeColor, BTreeNode, PositionedBTreeNode } from '../types';
 
 /**
  * Lay out a BST so that:
  *  - y is determined by depth (each level separated by LEVEL_GAP)
- *  - x is determined by in-order index (each node separated by NODE_GAP)
+ *  - x is determined by in-order index (neighbours at least MIN_NODE_GAP apart)
  *
  * The algorithm performs an in-order walk to assign sequential x-indices,
- * then scales and centres the result within the given canvas dimensions.
+ * then spreads the result across the given canvas width. A tree too big
+ * for that keeps the minimum spacing and runs wider than the canvas; the
+ * camera (canvas/camera.ts) zooms and pans over it.
  */
 
 const NODE_RADIUS = 22;
 const LEVEL_GAP = 80;
 const PADDING_TOP = 60;
 const PADDING_X = 40;
+const MIN_NODE_GAP = NODE_RADIUS * 2 + 8;
 
-export { NODE_RADIUS };
+// B-tree nodes are drawn as boxes of KEY_WIDTH-wide cells
+const KEY_WIDTH = 34;
+const BNODE_HEIGHT = 30;
+const BNODE_GAP = 16;
+
+export { NODE_RADIUS, LEVEL_GAP, PADDING_TOP, PADDING_X, MIN_NODE_GAP, KEY_WIDTH, BNODE_HEIGHT, BNODE_GAP };
 
 // ── In-order index assignment ──────────────────────────────────────────────
 
 interface RawPos {
+  id: NodeId;
   value: number;
+  color?: NodeColor;
+  priority?: number;
+  count?: number;
   inorderIdx: number;
   depth: number;
   left: RawPos | null;
@@ -37,7 +49,7 @@ function assignIndices(
   const inorderIdx = counter.idx++;
   const right = assignIndices(node.right, depth + 1, counter);
 
-  return { value: node.value, inorderIdx, depth, left, right };
+  return { id: node.id, value: node.value, color: node.color, priority: node.priority, count: node.count, inorderIdx, depth, left, right };
 }
 
 // ── Scale to canvas coordinates ────────────────────────────────────────────
@@ -50,12 +62,16 @@ function scaleTree(
   if (!raw) return null;
 
   const usableWidth = canvasWidth - PADDING_X * 2;
-  const gap = totalNodes > 1 ? usableWidth / (totalNodes - 1) : 0;
+  const gap = totalNodes > 1 ? Math.max(MIN_NODE_GAP, usableWidth / (totalNodes - 1)) : 0;
   const x = PADDING_X + raw.inorderIdx * gap;
   const y = PADDING_TOP + raw.depth * LEVEL_GAP;
 
   return {
+    id: raw.id,
     value: raw.value,
+    color: raw.color,
+    priority: raw.priority,
+    count: raw.count,
     x,
     y,
     left: scaleTree(raw.left, totalNodes, canvasWidth),
@@ -86,3 +102,56 @@ export function layoutTree(
   const raw = assignIndices(root, 0, { idx: 0 });
   return scaleTree(raw, total, canvasWidth);
 }
+
+// ── B-tree layout ──────────────────────────────────────────────────────────
+//
+// Leaves are packed left-to-right at their natural widths and every internal
+// node is centred over its children. The result is centred on the canvas,
+// or starts at the left padding if it is wider.
+
+function bNodeWidth(node: BTreeNode): number {
+  return Math.max(1, node.keys.length) * KEY_WIDTH;
+}
+
+function placeBTree(
+  node: BTreeNode,
+  depth: number,
+  cursor: { x: number },
+): PositionedBTreeNode {
+  const width = bNodeWidth(node);
+  const y = PADDING_TOP + depth * LEVEL_GAP;
+
+  if (node.children.length === 0) {
+    const x = cursor.x + width / 2;
+    cursor.x += width + BNODE_GAP;
+    return { keys: [...node.keys], x, y, width, children: [] };
+  }
+
+  const children = node.children.map((c) => placeBTree(c, depth + 1, cursor));
+  const x = (children[0].x + children[children.length - 1].x) / 2;
+  return { keys: [...node.keys], x, y, width, children };
+}
+
+function shiftBTree(node: PositionedBTreeNode, shift: number) {
+  node.x += shift;
+  node.children.forEach((c) => shiftBTree(c, shift));
+}
+
+/**
+ * Given a B-tree root and the available canvas width, return a positioned
+ * tree of multi-key boxes ready for rendering.
+ */
+export function layoutBTree(
+  root: BTreeNode | null,
+  canvasWidth: number,
+): PositionedBTreeNode | null {
+  if (!root) return null;
+
+  const cursor = { x: 0 };
+  const positioned = placeBTree(root, 0, cursor);
+  const naturalWidth = cursor.x - BNODE_GAP;
+  const usableWidth = canvasWidth - PADDING_X * 2;
+
+  shiftBTree(positioned, naturalWidth > usableWidth ? PADDING_X : (canvasWidth - naturalWidth) / 2);
+  return positioned;
+}
@@ -1,4 +1,4 @@
-import type { OperationType } from '../types';
+import type { OperationType, TreeKind, TraversalStyle, DuplicatePolicy } from '../types';
 
 export interface PseudocodeEntry {
   lines: string[];
@@ -87,6 +87,19 @@ const PSEUDOCODE: Record<string, PseudocodeEntry> = {
       'visit node',
     ],
   },
+  levelorder: {
+    title: 'Level-Order Traversal (BFS)',
+    lines: [
+      'queue = [root]',
+      'while queue is not empty',
+      '  node = queue.dequeue()',
+      '  visit node',
+      '  if node.left != null',
+      '    queue.enqueue(node.left)',
+      '  if node.right != null',
+      '    queue.enqueue(node.right)',
+    ],
+  },
   predecessor: {
     title: 'Predecessor',
     lines: [
@@ -113,6 +126,51 @@ const PSEUDOCODE: Record<string, PseudocodeEntry> = {
       'return successor',
     ],
   },
+  floor: {
+    title: 'Floor',
+    lines: [
+      'floor = null',
+      'while node != null',
+      '  if value == node.key',
+      '    return node',
+      '  else if value < node.key',
+      '    go left',
+      '  else',
+      '    floor = node',
+      '    go right',
+      'return floor',
+    ],
+  },
+  ceiling: {
+    title: 'Ceiling',
+    lines: [
+      'ceiling = null',
+      'while node != null',
+      '  if value == node.key',
+      '    return node',
+      '  else if value > node.key',
+      '    go right',
+      '  else',
+      '    ceiling = node',
+      '    go left',
+      'return ceiling',
+    ],
+  },
+  nearest: {
+    title: 'Nearest',
+    lines: [
+      'nearest = null',
+      'while node != null',
+      '  if |node.key - value| < |nearest.key - value|',
+      '    nearest = node',
+      '  if value == node.key',
+      '    return node',
+      '  else if value < node.key',
+      '    go left',
+      '  else go right',
+      'return nearest',
+    ],
+  },
   selectKth: {
     title: 'Select k-th',
     lines: [
@@ -125,8 +183,436 @@ const PSEUDOCODE: Record<string, PseudocodeEntry> = {
       'return result',
     ],
   },
+  rank: {
+    title: 'Rank',
+    lines: [
+      'rank = 0',
+      'while node != null',
+      '  if value < node.key',
+      '    go left',
+      '  else if value > node.key',
+      '    rank += size(node.left) + 1',
+      '    go right',
+      '  else',
+      '    return rank + size(node.left) + 1',
+      'return not found',
+    ],
+  },
+  rangeSearch: {
+    title: 'Range Search',
+    lines: [
+      'if node == null: return',
+      'if lo < node.key',
+      '  rangeSearch(node.left)',
+      'else skip node.left       // all < lo',
+      'if lo <= node.key <= hi',
+      '  report node.key',
+      'if node.key < hi',
+      '  rangeSearch(node.right)',
+      'else skip node.right      // all > hi',
+    ],
+  },
+  rangeCount: {
+    title: 'Range Count',
+    lines: [
+      'if node == null: return',
+      'if lo < node.key',
+      '  rangeCount(node.left)',
+      'else skip node.left       // all < lo',
+      'if lo <= node.key <= hi',
+      '  count++',
+      'if node.key < hi',
+      '  rangeCount(node.right)',
+      'else skip node.right      // all > hi',
+    ],
+  },
+  lca: {
+    title: 'Lowest Common Ancestor',
+    lines: [
+      'node = root',
+      'while node != null',
+      '  if a < node.key and b < node.key',
+      '    node = node.left',
+      '  else if a > node.key and b > node.key',
+      '    node = node.right',
+      '  else break          // paths split here',
+      'check a and b are below node',
+      'return node',
+    ],
+  },
+  distance: {
+    title: 'Distance',
+    lines: [
+      'lca = LCA(a, b)',
+      'da = edges from lca down to a',
+      'db = edges from lca down to b',
+      'return da + db',
+    ],
+  },
+  rebalance: {
+    title: 'Rebalance (Day–Stout–Warren)',
+    lines: [
+      'tail = pseudo-root, rest = root',
+      'while rest != null',
+      '  if rest.left == null',
+      '    tail = rest, rest = rest.right',
+      '  else',
+      '    rotate right at rest',
+      'm = 2^⌊log2(n+1)⌋ - 1',
+      'compress(n - m)',
+      'while m > 1',
+      '  m = ⌊m / 2⌋',
+      '  compress(m)',
+      'compress(k): k left rotations down the vine',
+    ],
+  },
+  buildBalanced: {
+    title: 'Build Balanced',
+    lines: [
+      'a = sorted keys without duplicates',
+      'build(lo, hi):',
+      '  if lo > hi: return null',
+      '  mid = ⌊(lo + hi) / 2⌋',
+      '  node = new Node(a[mid])',
+      '  node.left = build(lo, mid - 1)',
+      '  node.right = build(mid + 1, hi)',
+      '  return node',
+    ],
+  },
 };
 
-export function getPseudocode(op: OperationType): PseudocodeEntry {
-  return PSEUDOCODE[op] ?? { title: op, lines: [] };
+// ── Variant-specific overrides ─────────────────────────────────────────────
+// Only the operations a variant actually changes are listed; everything else
+// falls back to the plain BST entry above.
+
+const AVL_REBALANCE_LINES = [
+  'update this.height',
+  'balance = h(left) - h(right)',
+  'if balance > 1 and bal(left) >= 0',
+  '  rotateRight(this)',
+  'if balance > 1 and bal(left) < 0',
+  '  rotateLeft(left), rotateRight(this)',
+  'if balance < -1 and bal(right) <= 0',
+  '  rotateLeft(this)',
+  'if balance < -1 and bal(right) > 0',
+  '  rotateRight(right), rotateLeft(this)',
+];
+
+const RB_INSERT_LINES = [
+  'if this == null',
+  '  create new red node',
+  'else if value < this.key',
+  '  go left',
+  'else if value > this.key',
+  '  go right',
+  'while parent(x) is red',
+  '  if uncle is red',
+  '    recolour parent, uncle, grandparent; x = grandparent',
+  '  else if x is an inner child (triangle)',
+  '    x = parent; rotate x outwards',
+  '  else (line)',
+  '    recolour parent black, grandparent red',
+  '    rotate grandparent away from x',
+  'colour root black',
+];
+
+const SPLAY_LINES = [
+  'while x != root',
+  '  if parent(x) is root',
+  '    zig: rotate x over parent',
+  '  else if x and parent on same side',
+  '    zig-zig: rotate parent, then x',
+  '  else',
+  '    zig-zag: rotate x twice',
+];
+
+const TREAP_INSERT_LINES = [
+  'if this == null',
+  '  create node with random priority',
+  'else if value < this.key',
+  '  go left',
+  'else if value > this.key',
+  '  go right',
+  'while priority > parent.priority',
+  '  rotate node above parent',
+];
+
+const BTREE_INSERT_LINES = [
+  'find leaf: descend via first keys[i] >= value',
+  'insert value into leaf in order',
+  'while node has more than m-1 keys',
+  '  split around the median key',
+  '  push median up into parent',
+  '  if node was the root: grow a new root',
+];
+
+const VARIANT_PSEUDOCODE: Partial<Record<TreeKind, Partial<Record<OperationType, PseudocodeEntry>>>> = {
+  avl: {
+    insert: {
+      title: 'AVL Insert',
+      lines: [...PSEUDOCODE.insert.lines, ...AVL_REBALANCE_LINES],
+    },
+    create: {
+      title: 'AVL Create',
+      lines: [...PSEUDOCODE.insert.lines, ...AVL_REBALANCE_LINES],
+    },
+    remove: {
+      title: 'AVL Remove',
+      lines: [
+        'if this == null',
+        '  return (not found)',
+        'else if value < this.key',
+        '  go left',
+        'else if value > this.key',
+        '  go right',
+        'else // found the node',
+        '  if leaf or one child: bypass',
+        '  if two children:',
+        '    replace with successor',
+        '    remove successor from right',
+        ...AVL_REBALANCE_LINES,
+      ],
+    },
+  },
+  redblack: {
+    insert: { title: 'Red-Black Insert', lines: RB_INSERT_LINES },
+    create: { title: 'Red-Black Create', lines: RB_INSERT_LINES },
+    remove: {
+      title: 'Red-Black Remove',
+      lines: [
+        'if this == null',
+        '  return (not found)',
+        'else if value < this.key',
+        '  go left',
+        'else if value > this.key',
+        '  go right',
+        'else // found the node',
+        '  if two children: copy successor, delete it',
+        '  splice out node',
+        '  if removed node was black: fixup(x)',
+        'while x != root and x is black',
+        '  if sibling is red',
+        '    recolour, rotate parent towards x',
+        '  if both nephews are black',
+        '    recolour sibling red; x = parent',
+        '  else if far nephew is black (triangle)',
+        '    recolour, rotate sibling away from x',
+        '  else (line)',
+        '    sibling takes parent colour, recolour black',
+        '    rotate parent towards x; x = root',
+        'colour x black',
+      ],
+    },
+  },
+  splay: {
+    search: {
+      title: 'Splay Search',
+      lines: [
+        'if this == null',
+        '  splay last node; return null',
+        'else if this.key == search value',
+        '  splay(this); return this',
+        'else if this.key < search value',
+        '  search right',
+        'else search left',
+        ...SPLAY_LINES,
+      ],
+    },
+    insert: { title: 'Splay Insert', lines: [...PSEUDOCODE.insert.lines, ...SPLAY_LINES] },
+    create: { title: 'Splay Create', lines: [...PSEUDOCODE.insert.lines, ...SPLAY_LINES] },
+    remove: {
+      title: 'Splay Remove',
+      lines: [
+        'splay(value) to the root',
+        'if root.key != value: return (not found)',
+        'if root.left == null: root = root.right',
+        'else',
+        '  splay max of left subtree below root',
+        '  max.right = root.right; root = max',
+        ...SPLAY_LINES,
+      ],
+    },
+  },
+  treap: {
+    insert: { title: 'Treap Insert', lines: TREAP_INSERT_LINES },
+    create: { title: 'Treap Create', lines: TREAP_INSERT_LINES },
+    remove: {
+      title: 'Treap Remove',
+      lines: [
+        'if this == null',
+        '  return (not found)',
+        'else if value < this.key',
+        '  go left',
+        'else if value > this.key',
+        '  go right',
+        'else // found the node',
+        '  while node has children',
+        '    rotate higher-priority child up',
+        '  remove leaf',
+      ],
+    },
+  },
+  btree: {
+    search: {
+      title: 'B-Tree Search',
+      lines: [
+        'i = first index with keys[i] >= value',
+        'if i < n and keys[i] == value',
+        '  return (node, i)',
+        'else if node is a leaf',
+        '  return null',
+        'else search children[i]',
+      ],
+    },
+    insert: { title: 'B-Tree Insert', lines: BTREE_INSERT_LINES },
+    create: { title: 'B-Tree Create', lines: BTREE_INSERT_LINES },
+    remove: {
+      title: 'B-Tree Remove',
+      lines: [
+        'find node containing value',
+        'if not found: return',
+        'if node is internal',
+        '  replace with predecessor, delete it from its leaf',
+        'else remove value from leaf',
+        'while node has fewer than ⌈m/2⌉-1 keys',
+        '  if a sibling has a spare key',
+        '    borrow through the parent',
+        '  else',
+        '    merge with sibling and separator',
+        'if root is empty: root = its only child',
+      ],
+    },
+  },
+};
+
+// ── Non-recursive depth-first traversals ───────────────────────────────────
+
+const MORRIS_HEAD = [
+  'node = root',
+  'while node != null',
+  '  if node.left == null',
+  '    visit node',
+  '    node = node.right',
+  '  else',
+  '    pred = rightmost node of node.left (stop at node)',
+  '    if pred.right == null',
+];
+
+const TRAVERSAL_PSEUDOCODE: Record<Exclude<TraversalStyle, 'recursive'>, Partial<Record<OperationType, PseudocodeEntry>>> = {
+  iterative: {
+    inorder: {
+      title: 'Iterative In-Order',
+      lines: [
+        'stack = []',
+        'node = root',
+        'while node != null or stack not empty',
+        '  while node != null',
+        '    stack.push(node)',
+        '    node = node.left',
+        '  node = stack.pop()',
+        '  visit node',
+        '  node = node.right',
+      ],
+    },
+    preorder: {
+      title: 'Iterative Pre-Order',
+      lines: [
+        'stack = [root]',
+        'while stack not empty',
+        '  node = stack.pop()',
+        '  visit node',
+        '  if node.right != null',
+        '    stack.push(node.right)',
+        '  if node.left != null',
+        '    stack.push(node.left)',
+      ],
+    },
+    postorder: {
+      title: 'Iterative Post-Order',
+      lines: [
+        'stack = [], last = null',
+        'node = root',
+        'while node != null or stack not empty',
+        '  if node != null',
+        '    stack.push(node)',
+        '    node = node.left',
+        '  else',
+        '    top = stack.peek()',
+        '    if top.right != null and last != top.right',
+        '      node = top.right',
+        '    else',
+        '      visit top',
+        '      last = stack.pop()',
+      ],
+    },
+  },
+  morris: {
+    inorder: {
+      title: 'Morris In-Order',
+      lines: [
+        ...MORRIS_HEAD,
+        '      pred.right = node      // thread',
+        '      node = node.left',
+        '    else',
+        '      pred.right = null      // unthread',
+        '      visit node',
+        '      node = node.right',
+      ],
+    },
+    preorder: {
+      title: 'Morris Pre-Order',
+      lines: [
+        ...MORRIS_HEAD,
+        '      visit node',
+        '      pred.right = node      // thread',
+        '      node = node.left',
+        '    else',
+        '      pred.right = null      // unthread',
+        '      node = node.right',
+      ],
+    },
+  },
+};
+
+// ── Duplicate keys (plain BSTs) ────────────────────────────────────────────
+// Insert gains an equal-key branch at lines 6–7. Remove and select-k only
+// reword lines in place, so the line indices they report stay the same.
+
+const DUPLICATE_PSEUDOCODE: Record<DuplicatePolicy, { insert: string; reword?: Partial<Record<OperationType, Record<number, string>>> }> = {
+  reject: { insert: '  reject it: tree unchanged' },
+  count: {
+    insert: '  this.count++',
+    reword: {
+      remove: { 6: 'else // found: if this.count > 1, count-- and stop' },
+      selectKth: { 2: 'count += node.count', 3: 'if count >= k' },
+      rank: { 5: '    rank += size(node.left) + node.count', 8: '    return rank + size(node.left) + node.count' },
+    },
+  },
+  left: {
+    insert: '  go left',
+    reword: { remove: { 10: '    replace with predecessor', 11: '    remove predecessor from left' } },
+  },
+  right: { insert: '  go right' },
+};
+
+function withDuplicatePolicy(op: OperationType, entry: PseudocodeEntry, policy: DuplicatePolicy): PseudocodeEntry {
+  const { insert, reword } = DUPLICATE_PSEUDOCODE[policy];
+  if (op === 'insert') return { ...entry, lines: [...entry.lines, 'else // equal key', insert] };
+  const changes = reword?.[op];
+  if (!changes) return entry;
+  return { ...entry, lines: entry.lines.map((line, i) => changes[i] ?? line) };
+}
+
+export function getPseudocode(
+  op: OperationType,
+  kind: TreeKind = 'bst',
+  style: TraversalStyle = 'recursive',
+  duplicates: DuplicatePolicy = 'reject',
+): PseudocodeEntry {
+  if (style !== 'recursive') {
+    const entry = TRAVERSAL_PSEUDOCODE[style][op];
+    if (entry) return entry;
+  }
+  const entry = VARIANT_PSEUDOCODE[kind]?.[op] ?? PSEUDOCODE[op] ?? { title: op, lines: [] };
+  return kind === 'bst' ? withDuplicatePolicy(op, entry, duplicates) : entry;
 }
@@ -0,0 +1,179 @@
+import type { TreeNode, AnimationStep, HighlightType, HighlightEdge, NodeId } from '../types';
+import { createNode, cloneTree, countNodes, treeHeight, rotateLeft, rotateRight, makeStep, insertPlain } from './bst';
+
+/**
+ * Trees of minimal height: rebalancing an existing tree, or building one
+ * from a list of keys.
+ *
+ * Day–Stout–Warren: right rotations first straighten the tree into a "vine"
+ * (every node a right child), then passes of left rotations fold the vine
+ * back into a tree of minimal height. Works in place with O(1) extra space;
+ * a pseudo-root above the real root lets the root itself be rotated like any
+ * other node.
+ */
+
+// Pseudocode (0-indexed):
+//  0: tail = pseudo-root, rest = root
+//  1: while rest != null
+//  2:   if rest.left == null
+//  3:     tail = rest, rest = rest.right
+//  4:   else
+//  5:     rotate right at rest
+//  6: m = 2^⌊log2(n+1)⌋ - 1
+//  7: compress(n - m)
+//  8: while m > 1
+//  9:   m = ⌊m / 2⌋
+// 10:   compress(m)
+// 11: compress(k): k left rotations down the vine
+
+export function dswRebalance(root: TreeNode | null): { root: TreeNode | null; steps: AnimationStep[] } {
+  const steps: AnimationStep[] = [];
+  const pseudo: TreeNode = { ...createNode(NaN), right: cloneTree(root) };
+  const n = countNodes(root);
+  const before = treeHeight(root);
+  let marks = new Map<NodeId, HighlightType>();
+  let m: number | null = null;
+  let rotations = 0;
+
+  const push = (description: string, codeLine: number, edges: HighlightEdge[] = [], activeNode?: NodeId) => {
+    const step = makeStep(pseudo.right, description, [...marks.entries()], edges, codeLine, activeNode);
+    steps.push({ ...step, variables: new Map(Object.entries({ n, m, rotations })) });
+  };
+
+  if (n === 0) {
+    push('The tree is empty: nothing to rebalance', 0);
+    return { root: null, steps };
+  }
+  push(`Rebalancing ${n} nodes (height ${before}): first straighten the tree into a vine`, 0);
+
+  // ── Phase 1: tree → vine ────────────────────────────────────────────────
+  let tail = pseudo;
+  let rest = tail.right;
+  while (rest) {
+    if (!rest.left) {
+      marks.set(rest.id, 'path');
+      push(`${rest.value} has no left child: it joins the vine`, 3, [], rest.id);
+      tail = rest;
+      rest = rest.right;
+    } else {
+      const down = rest;
+      rest = rotateRight(down);
+      tail.right = rest;
+      rotations++;
+      marks.set(rest.id, 'found');
+      marks.set(down.id, 'visiting');
+      push(`Rotate right at ${down.value}: ${rest.value} moves up`, 5, [[rest.id, down.id]], rest.id);
+      marks.delete(rest.id);
+      marks.delete(down.id);
+    }
+  }
+
+  // ── Phase 2: vine → tree ────────────────────────────────────────────────
+  marks = new Map();
+  m = 2 ** Math.floor(Math.log2(n + 1)) - 1;
+  push(`Vine of ${n} nodes (height ${treeHeight(pseudo.right)}); the complete part will hold ${m}`, 6);
+
+  /** Rotate every other vine node left, `count` times from the top */
+  function compress(count: number, codeLine: number) {
+    let scanner = pseudo;
+    for (let i = 0; i < count; i++) {
+      const down = scanner.right!;
+      const up = rotateLeft(down);
+      scanner.right = up;
+      rotations++;
+      marks.set(up.id, 'found');
+      marks.set(down.id, 'visiting');
+      push(`Rotate left at ${down.value}: ${up.value} moves up (${i + 1} of ${count})`, codeLine, [[up.id, down.id]], up.id);
+      marks.delete(up.id);
+      marks.delete(down.id);
+      scanner = up;
+    }
+  }
+
+  const leftover = n - m;
+  if (leftover > 0) {
+    push(`Compress ${leftover} time(s) to fold the ${leftover} node(s) beyond ${m} into the bottom level`, 7);
+    compress(leftover, 11);
+  }
+  while (m > 1) {
+    m = Math.floor(m / 2);
+    push(`m = ${m}: compress the vine ${m} time(s)`, 9);
+    compress(m, 11);
+  }
+
+  const after = treeHeight(pseudo.right);
+  push(`Rebalanced with ${rotations} rotations: height ${before} → ${after}`, 8);
+  return { root: pseudo.right, steps };
+}
+
+// ── Build from a sorted list ───────────────────────────────────────────────
+// Pseudocode (0-indexed):
+//  0: a = sorted keys without duplicates
+//  1: build(lo, hi):
+//  2:   if lo > hi: return null
+//  3:   mid = ⌊(lo + hi) / 2⌋
+//  4:   node = new Node(a[mid])
+//  5:   node.left = build(lo, mid - 1)
+//  6:   node.right = build(mid + 1, hi)
+//  7:   return node
+//
+// Nodes are linked in as soon as they are created, so the tree grows on the
+// canvas while the array window under it narrows. The highlighted edges are
+// the recursion path down to the current call.
+
+export function buildBalanced(values: number[]): { root: TreeNode | null; steps: AnimationStep[] } {
+  const steps: AnimationStep[] = [];
+  const keys = [...new Set(values)].sort((x, y) => x - y);
+  const ref: { root: TreeNode | null } = { root: null };
+  const path: HighlightEdge[] = [];
+
+  const push = (
+    description: string,
+    codeLine: number,
+    window?: { lo: number; hi: number; mid?: number },
+    created?: NodeId,
+  ) => {
+    const marked = window?.mid !== undefined ? [keys[window.mid]] : [];
+    const step = makeStep(ref.root, description, created !== undefined ? [[created, 'inserting']] : [], path, codeLine, created);
+    const variables = new Map(Object.entries({ lo: window?.lo ?? null, hi: window?.hi ?? null, mid: window?.mid ?? null }));
+    steps.push({ ...step, aux: { kind: 'array', items: keys, marked, window }, variables });
+  };
+
+  const dropped = values.length - keys.length;
+  const note = dropped > 0 ? ` (${dropped} duplicate(s) dropped)` : '';
+  push(`Sorted ${keys.length} key(s)${note}`, 0);
+
+  function build(lo: number, hi: number, parent: TreeNode | null, side: 'left' | 'right'): TreeNode | null {
+    if (lo > hi) {
+      push(`build(${lo}, ${hi}): the window is empty, return null`, 2, { lo, hi });
+      return null;
+    }
+    const mid = Math.floor((lo + hi) / 2);
+    push(`build(${lo}, ${hi}): mid = ⌊(${lo} + ${hi}) / 2⌋ = ${mid}, a[${mid}] = ${keys[mid]}`, 3, { lo, hi, mid });
+
+    const node = createNode(keys[mid]);
+    if (parent) {
+      parent[side] = node;
+      path.push([parent.id, node.id]);
+    } else {
+      ref.root = node;
+    }
+    const where = parent ? `the ${side} child of ${parent.value}` : 'the root';
+    push(`Create ${node.value} as ${where}`, 4, { lo, hi, mid }, node.id);
+
+    build(lo, mid - 1, node, 'left');
+    build(mid + 1, hi, node, 'right');
+    if (parent) path.pop();
+    return node;
+  }
+
+  build(0, keys.length - 1, null, 'left');
+
+  // For comparison: the same keys inserted one by one in the order given
+  const inserted = values.reduce<TreeNode | null>((root, v) => insertPlain(root, v), null);
+  push(
+    `Built a tree of height ${treeHeight(ref.root)}; inserting the keys in the order given would reach height ${treeHeight(inserted)}`,
+    7,
+  );
+  return { root: ref.root, steps };
+}
@@ -0,0 +1,293 @@
+import type { TreeNode, AnimationStep, HighlightType, HighlightEdge, NodeColor, NodeId } from '../types';
+import type { RootRef } from './bst';
+import {
+  createNode,
+  cloneTree,
+  findMin,
+  rotateLeft,
+  rotateRight,
+  replaceChild,
+  makeStep,
+  makeTraversalStep,
+} from './bst';
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/** Null links count as black leaves. */
+function colorOf(node: TreeNode | null): NodeColor {
+  return node?.color ?? 'black';
+}
+
+/**
+ * Locate `node`'s parent by walking down from the root. Keys are unique, so
+ * the BST ordering leads straight to it; while a removal has copied the
+ * successor's key up, equal keys are resolved by going right, which is
+ * where the successor lives.
+ */
+function parentOf(ref: RootRef, node: TreeNode): TreeNode | null {
+  let parent: TreeNode | null = null;
+  let cur = ref.root;
+  while (cur && cur !== node) {
+    parent = cur;
+    cur = node.value < cur.value ? cur.left : cur.right;
+  }
+  return parent;
+}
+
+/** Rotate `node` in place and re-link the new subtree root to its parent. */
+function rotate(ref: RootRef, node: TreeNode, dir: 'left' | 'right'): TreeNode {
+  const parent = parentOf(ref, node);
+  const pivot = dir === 'left' ? rotateLeft(node) : rotateRight(node);
+  replaceChild(ref, parent, node, pivot);
+  return pivot;
+}
+
+/** Walk from the root towards `value`, recording one compare step per node. */
+function descend(
+  ref: RootRef,
+  value: number,
+  steps: AnimationStep[],
+  pathNodes: Map<NodeId, HighlightType>,
+  pathEdges: HighlightEdge[],
+): { node: TreeNode | null; parent: TreeNode | null } {
+  let parent: TreeNode | null = null;
+  let node = ref.root;
+
+  while (node && node.value !== value) {
+    if (parent) pathEdges.push([parent.id, node.id]);
+    pathNodes.set(node.id, 'visiting');
+    steps.push(makeTraversalStep(ref.root, `Compare ${value} with ${node.value}`, node.id, 'visiting', pathNodes, pathEdges, 0));
+
+    if (value < node.value) {
+      steps.push(makeTraversalStep(ref.root, `${value} < ${node.value}, go left`, node.id, 'visiting', pathNodes, pathEdges, 2));
+      parent = node;
+      node = node.left;
+    } else {
+      steps.push(makeTraversalStep(ref.root, `${value} > ${node.value}, go right`, node.id, 'visiting', pathNodes, pathEdges, 4));
+      parent = node;
+      node = node.right;
+    }
+  }
+
+  if (node && parent) pathEdges.push([parent.id, node.id]);
+  return { node, parent };
+}
+
+// ── Insert ─────────────────────────────────────────────────────────────────
+// Pseudocode lines (0-indexed):
+//  0: if this == null
+//  1:   create new red node
+//  2: else if value < this.key
+//  3:   go left
+//  4: else if value > this.key
+//  5:   go right
+//  6: while parent(x) is red
+//  7:   if uncle is red
+//  8:     recolour parent, uncle, grandparent; x = grandparent
+//  9:   else if x is an inner child (triangle)
+// 10:     x = parent; rotate x outwards
+// 11:   else (line)
+// 12:     recolour parent black, grandparent red
+// 13:     rotate grandparent away from x
+// 14: colour root black
+
+export function insertRB(
+  root: TreeNode | null,
+  value: number,
+): { root: TreeNode; steps: AnimationStep[] } {
+  const steps: AnimationStep[] = [];
+  const pathEdges: HighlightEdge[] = [];
+  const pathNodes = new Map<NodeId, HighlightType>();
+  const ref: RootRef = { root: cloneTree(root) };
+
+  const snapshot = (description: string, current: NodeId, type: HighlightType, line: number) =>
+    steps.push(makeTraversalStep(ref.root, description, current, type, pathNodes, pathEdges, line));
+
+  const { node: existing, parent } = descend(ref, value, steps, pathNodes, pathEdges);
+  if (existing) {
+    snapshot(`${value} is already in the tree`, existing.id, 'found', 0);
+    return { root: ref.root!, steps };
+  }
+
+  let x: TreeNode = { ...createNode(value), color: 'red' };
+  pathNodes.set(x.id, 'inserting');
+  if (!parent) {
+    ref.root = x;
+    snapshot(`Insert ${value} as root (red)`, x.id, 'inserting', 1);
+  } else {
+    if (value < parent.value) parent.left = x;
+    else parent.right = x;
+    pathEdges.push([parent.id, x.id]);
+    snapshot(`Inserted ${value} as a red node`, x.id, 'inserting', 1);
+  }
+
+  while (x !== ref.root && colorOf(parentOf(ref, x)) === 'red') {
+    const p = parentOf(ref, x)!;
+    const g = parentOf(ref, p)!; // a red parent is never the root
+    const parentIsLeft = g.left === p;
+    const uncle = parentIsLeft ? g.right : g.left;
+    snapshot(`Parent ${p.value} of ${x.value} is red`, x.id, 'visiting', 6);
+
+    if (colorOf(uncle) === 'red') {
+      p.color = 'black';
+      uncle!.color = 'black';
+      g.color = 'red';
+      snapshot(`Uncle ${uncle!.value} is red: recolour ${p.value}, ${uncle!.value} black and ${g.value} red`, g.id, 'found', 8);
+      x = g;
+      continue;
+    }
+
+    const isInner = parentIsLeft ? p.right === x : p.left === x;
+    if (isInner) {
+      snapshot(`Uncle is black and ${x.value} is an inner child (triangle)`, x.id, 'visiting', 9);
+      rotate(ref, p, parentIsLeft ? 'left' : 'right');
+      x = p;
+      snapshot(`Rotate ${parentIsLeft ? 'left' : 'right'} at ${p.value}`, x.id, 'found', 10);
+    }
+
+    const lineParent = parentOf(ref, x)!;
+    const grand = parentOf(ref, lineParent)!;
+    snapshot(`Uncle is black and ${x.value} is an outer child (line)`, x.id, 'visiting', 11);
+    lineParent.color = 'black';
+    grand.color = 'red';
+    snapshot(`Recolour ${lineParent.value} black and ${grand.value} red`, lineParent.id, 'found', 12);
+    rotate(ref, grand, parentIsLeft ? 'right' : 'left');
+    snapshot(`Rotate ${parentIsLeft ? 'right' : 'left'} at ${grand.value}`, lineParent.id, 'found', 13);
+  }
+
+  ref.root!.color = 'black';
+  snapshot(`Colour root ${ref.root!.value} black`, ref.root!.id, 'visiting', 14);
+
+  steps.push(makeStep(ref.root, `Inserted ${value}`, [...pathNodes.entries()], [...pathEdges]));
+  return { root: ref.root!, steps };
+}
+
+// ── Remove ─────────────────────────────────────────────────────────────────
+// Pseudocode lines (0-indexed):
+//  0: if this == null
+//  1:   return (not found)
+//  2: else if value < this.key
+//  3:   go left
+//  4: else if value > this.key
+//  5:   go right
+//  6: else // found the node
+//  7:   if two children: copy successor, delete it
+//  8:   splice out node
+//  9:   if removed node was black: fixup(x)
+// 10: while x != root and x is black
+// 11:   if sibling is red
+// 12:     recolour, rotate parent towards x
+// 13:   if both nephews are black
+// 14:     recolour sibling red; x = parent
+// 15:   else if far nephew is black (triangle)
+// 16:     recolour, rotate sibling away from x
+// 17:   else (line)
+// 18:     sibling takes parent colour, recolour black
+// 19:     rotate parent towards x; x = root
+// 20: colour x black
+
+export function removeRB(
+  root: TreeNode | null,
+  value: number,
+): { root: TreeNode | null; steps: AnimationStep[] } {
+  const steps: AnimationStep[] = [];
+  const pathEdges: HighlightEdge[] = [];
+  const pathNodes = new Map<NodeId, HighlightType>();
+  const ref: RootRef = { root: cloneTree(root) };
+
+  const snapshot = (description: string, current: NodeId, type: HighlightType, line: number) =>
+    steps.push(makeTraversalStep(ref.root, description, current, type, pathNodes, pathEdges, line));
+
+  const { node } = descend(ref, value, steps, pathNodes, pathEdges);
+  if (!node) {
+    steps.push(makeStep(ref.root, `${value} not found`, [...pathNodes.entries()], [...pathEdges], 1));
+    return { root: ref.root, steps };
+  }
+
+  pathNodes.set(node.id, 'removing');
+  snapshot(`Found ${node.value}, removing`, node.id, 'removing', 6);
+
+  let target = node;
+  if (node.left && node.right) {
+    const successor = findMin(node.right);
+    pathNodes.set(successor.id, 'found');
+    snapshot(`Two children, copy successor ${successor.value} and delete it instead`, successor.id, 'found', 7);
+    node.value = successor.value;
+    target = successor;
+  }
+
+  /** Restore the black-height after removing a black node above `x`. */
+  function fixAfterRemove(start: TreeNode) {
+    let x = start;
+    while (x !== ref.root && colorOf(x) === 'black') {
+      const parent = parentOf(ref, x)!;
+      const xIsLeft = parent.left === x;
+      const towardX = xIsLeft ? 'left' : 'right';
+      const awayFromX = xIsLeft ? 'right' : 'left';
+      let sibling = (xIsLeft ? parent.right : parent.left)!;
+      snapshot(`${x.value} carries an extra black; sibling is ${sibling.value}`, x.id, 'visiting', 10);
+
+      if (colorOf(sibling) === 'red') {
+        sibling.color = 'black';
+        parent.color = 'red';
+        rotate(ref, parent, towardX);
+        snapshot(`Sibling ${sibling.value} is red: recolour and rotate ${towardX} at ${parent.value}`, sibling.id, 'found', 12);
+        sibling = (xIsLeft ? parent.right : parent.left)!;
+      }
+
+      const near = xIsLeft ? sibling.left : sibling.right;
+      const far = xIsLeft ? sibling.right : sibling.left;
+      if (colorOf(near) === 'black' && colorOf(far) === 'black') {
+        sibling.color = 'red';
+        snapshot(`Both children of ${sibling.value} are black: recolour it red, move up to ${parent.value}`, parent.id, 'visiting', 14);
+        x = parent;
+        continue;
+      }
+
+      if (colorOf(far) === 'black') {
+        near!.color = 'black';
+        sibling.color = 'red';
+        rotate(ref, sibling, awayFromX);
+        snapshot(`Far nephew is black (triangle): recolour and rotate ${awayFromX} at ${sibling.value}`, near!.id, 'found', 16);
+        sibling = (xIsLeft ? parent.right : parent.left)!;
+      }
+
+      sibling.color = colorOf(parent);
+      parent.color = 'black';
+      (xIsLeft ? sibling.right : sibling.left)!.color = 'black';
+      snapshot(`Far nephew is red (line): ${sibling.value} takes ${parent.value}'s colour`, sibling.id, 'found', 18);
+      rotate(ref, parent, towardX);
+      snapshot(`Rotate ${towardX} at ${parent.value}`, sibling.id, 'found', 19);
+      x = ref.root!;
+    }
+
+    x.color = 'black';
+    snapshot(`Colour ${x.value} black`, x.id, 'visiting', 20);
+  }
+
+  const replacement = target.left ?? target.right;
+  const removedBlack = colorOf(target) === 'black';
+
+  if (replacement) {
+    replaceChild(ref, parentOf(ref, target), target, replacement);
+    snapshot(`Splice out ${target.value}; ${replacement.value} takes its place`, replacement.id, 'visiting', 8);
+    if (removedBlack) {
+      snapshot(`Removed node was black, fix up from ${replacement.value}`, replacement.id, 'visiting', 9);
+      fixAfterRemove(replacement);
+    }
+  } else if (target === ref.root) {
+    ref.root = null;
+    steps.push(makeStep(ref.root, `Removed the only node`, [], [], 8));
+  } else {
+    // A black leaf is fixed up in place first, then unlinked
+    if (removedBlack) {
+      snapshot(`${target.value} is a black leaf, fix up before unlinking`, target.id, 'removing', 9);
+      fixAfterRemove(target);
+    }
+    replaceChild(ref, parentOf(ref, target), target, null);
+    steps.push(makeStep(ref.root, `Unlink ${target === node ? value : `successor ${target.value}`}`, [...pathNodes.entries()], [...pathEdges], 8));
+  }
+
+  steps.push(makeStep(ref.root, `Removal complete`, [...pathNodes.entries()], [...pathEdges]));
+  return { root: ref.root, steps };
+}
@@ -0,0 +1,427 @@
+import type { TreeNode, BTreeNode, TreeKind, OperationType, TraversalStyle, DuplicatePolicy } from '../types';
+import { preorderValues, TREE_KINDS, getVariant } from './variants';
+import { BTREE_ORDERS, BTREE_OPERATIONS, DEFAULT_BTREE_ORDER } from './btree';
+import { stylesFor } from './traversals';
+import { DUPLICATE_POLICIES, createNode } from './bst';
+import { findViolations } from './editor';
+
+/**
+ * Shareable tree state encoded in the URL hash, e.g.
+ *
+ *   #v=1&k=redblack&t=50,30r,70&op=insert&x=42&s=5
+ *
+ *  - v   format version (bumped on incompatible changes)
+ *  - k   tree kind
+ *  - o   B-tree order (B-trees only)
+ *  - d   duplicate policy (plain BSTs only, omitted for 'reject')
+ *  - t   the tree:
+ *          binary kinds → pre-order keys, each optionally suffixed with
+ *                         `r` (red node), `p<n>` (treap priority) or
+ *                         `x<n>` (copies of a counted key)
+ *          B-tree       → node keys joined by `.`, children in parentheses,
+ *                         e.g. `20(5.10)(30.40)`
+ *  - f   set (`f=1`) on a plain BST the editor left out of order: `t` then
+ *        marks every missing child with `_`, e.g. `50,70,_,_,30,_,_`, since
+ *        re-inserting the keys would not give back the same shape
+ *  - op  pending operation, x its argument, s the step shown (1-based)
+ *  - y   second argument of a two-argument operation (e.g. a range's top)
+ *  - ts  traversal style of a depth-first traversal, when not recursive
+ *
+ * When an operation is present, `t` is the tree *before* it ran, so the
+ * operation can be replayed to reach the same step.
+ */
+
+export const SHARE_VERSION = 1;
+
+export interface SharedState {
+  kind: TreeKind;
+  tree: TreeNode | null;
+  bTree: BTreeNode | null;
+  bTreeOrder: number;
+  duplicates: DuplicatePolicy;
+  op?: OperationType;
+  value?: number;
+  value2?: number;
+  step?: number;
+  style?: TraversalStyle;
+}
+
+export type DecodeResult =
+  | { ok: true; state: SharedState }
+  | { ok: false; error: string };
+
+// Operations whose steps are deterministic, so replaying them lands on the
+// same frame. Creating a random tree (or a treap insert, which draws a
+// random priority) would not.
+const REPLAYABLE_OPS: OperationType[] = [
+  'search',
+  'insert',
+  'remove',
+  'predecessor',
+  'successor',
+  'floor',
+  'ceiling',
+  'nearest',
+  'selectKth',
+  'rank',
+  'inorder',
+  'preorder',
+  'postorder',
+  'levelorder',
+  'rangeSearch',
+  'rangeCount',
+  'lca',
+  'distance',
+  'rebalance',
+];
+
+// Operations that run without an argument
+const NO_ARGUMENT_OPS: OperationType[] = ['inorder', 'preorder', 'postorder', 'levelorder', 'rebalance'];
+
+// Operations that take a second argument
+const TWO_ARGUMENT_OPS: OperationType[] = ['rangeSearch', 'rangeCount', 'lca', 'distance'];
+
+export function isReplayable(kind: TreeKind, op: OperationType): boolean {
+  if (kind === 'treap' && op === 'insert') return false;
+  if (kind === 'btree' && !BTREE_OPERATIONS.includes(op)) return false;
+  if (kind !== 'btree' && op === 'rebalance' && !getVariant(kind).rebalance) return false;
+  return REPLAYABLE_OPS.includes(op);
+}
+
+// ── Encoding ───────────────────────────────────────────────────────────────
+
+function encodeNode(node: TreeNode): string {
+  let token = String(node.value);
+  if (node.color === 'red') token += 'r';
+  if (node.priority !== undefined) token += `p${node.priority}`;
+  if (node.count !== undefined) token += `x${node.count}`;
+  return token;
+}
+
+/** Pre-order tokens; with `shaped`, missing children are written as `_`. */
+function encodeBinaryTree(root: TreeNode | null, shaped = false): string {
+  const tokens: string[] = [];
+  (function walk(node: TreeNode | null) {
+    if (!node) {
+      if (shaped) tokens.push('_');
+      return;
+    }
+    tokens.push(encodeNode(node));
+    walk(node.left);
+    walk(node.right);
+  })(root);
+  return tokens.join(',');
+}
+
+function encodeBTree(node: BTreeNode | null): string {
+  if (!node) return '';
+  return node.keys.join('.') + node.children.map((c) => `(${encodeBTree(c)})`).join('');
+}
+
+/** Encode a shared state as a hash string (without the leading `#`). */
+export function encodeShareHash(state: SharedState): string {
+  const params = new URLSearchParams();
+  params.set('v', String(SHARE_VERSION));
+  params.set('k', state.kind);
+  if (state.kind === 'btree') {
+    params.set('o', String(state.bTreeOrder));
+    params.set('t', encodeBTree(state.bTree));
+  } else {
+    if (state.kind === 'bst' && state.duplicates !== 'reject') params.set('d', state.duplicates);
+    const shaped = state.kind === 'bst' && findViolations(state.tree, state.duplicates).size > 0;
+    if (shaped) params.set('f', '1');
+    params.set('t', encodeBinaryTree(state.tree, shaped));
+  }
+  if (state.op) {
+    params.set('op', state.op);
+    if (state.value !== undefined) params.set('x', String(state.value));
+    if (state.value2 !== undefined && TWO_ARGUMENT_OPS.includes(state.op)) params.set('y', String(state.value2));
+    if (state.step !== undefined) params.set('s', String(state.step));
+    if (state.style && state.style !== 'recursive') params.set('ts', state.style);
+  }
+  // URLSearchParams escapes the tree punctuation, which is safe in a hash
+  return params.toString().replace(/%2C/g, ',').replace(/%28/g, '(').replace(/%29/g, ')');
+}
+
+// ── Decoding ───────────────────────────────────────────────────────────────
+
+function parseInteger(text: string | null): number | null {
+  if (text === null || !/^-?\d+$/.test(text)) return null;
+  const n = Number(text);
+  return Number.isSafeInteger(n) ? n : null;
+}
+
+/** Equal keys only occur under the 'left' or 'right' duplicate policy */
+function insertShaped(root: TreeNode | null, node: TreeNode, duplicates: DuplicatePolicy): TreeNode {
+  if (!root) return node;
+  const goLeft = node.value < root.value || (node.value === root.value && duplicates === 'left');
+  if (goLeft) root.left = insertShaped(root.left, node, duplicates);
+  else root.right = insertShaped(root.right, node, duplicates);
+  return root;
+}
+
+/** Fill in AVL heights bottom-up; returns the height of `node`. */
+function fillHeights(node: TreeNode | null): number {
+  if (!node) return 0;
+  node.height = 1 + Math.max(fillHeights(node.left), fillHeights(node.right));
+  return node.height;
+}
+
+/** Returns an error message if `root` breaks the invariants of `kind`. */
+function checkBinaryInvariants(kind: TreeKind, root: TreeNode | null): string | null {
+  if (kind === 'avl') {
+    let unbalanced: number | null = null;
+    (function walk(node: TreeNode | null) {
+      if (!node || unbalanced !== null) return;
+      if (Math.abs((node.left?.height ?? 0) - (node.right?.height ?? 0)) > 1) unbalanced = node.value;
+      walk(node.left);
+      walk(node.right);
+    })(root);
+    return unbalanced !== null ? `node ${unbalanced} is not AVL-balanced` : null;
+  }
+
+  if (kind === 'redblack') {
+    if (root?.color === 'red') return 'the root must be black';
+    let problem: string | null = null;
+    const blackHeight = (node: TreeNode | null): number => {
+      if (!node) return 1;
+      if (node.color === 'red' && (node.left?.color === 'red' || node.right?.color === 'red')) {
+        problem ??= `red node ${node.value} has a red child`;
+      }
+      const left = blackHeight(node.left);
+      if (left !== blackHeight(node.right)) problem ??= `black heights differ below ${node.value}`;
+      return left + (node.color === 'red' ? 0 : 1);
+    };
+    blackHeight(root);
+    return problem;
+  }
+
+  if (kind === 'treap') {
+    let problem: string | null = null;
+    (function walk(node: TreeNode | null) {
+      if (!node || problem) return;
+      if (node.priority === undefined) problem = `node ${node.value} has no priority`;
+      for (const child of [node.left, node.right]) {
+        if (child && (child.priority ?? 0) > (node.priority ?? 0)) problem = `node ${child.value} breaks heap order`;
+      }
+      walk(node.left);
+      walk(node.right);
+    })(root);
+    return problem;
+  }
+
+  return null;
+}
+
+/** Parse one node token; `values` holds the keys seen so far. */
+function decodeNode(
+  kind: TreeKind,
+  token: string,
+  duplicates: DuplicatePolicy,
+  values: number[],
+): { node: TreeNode } | { error: string } {
+  const match = /^(-?\d+)(r)?(?:p(\d+))?(?:x(\d+))?$/.exec(token);
+  const value = match ? parseInteger(match[1]) : null;
+  if (!match || value === null) return { error: `bad node "${token}"` };
+  const separateCopies = duplicates === 'left' || duplicates === 'right';
+  if (values.includes(value) && !separateCopies) return { error: `duplicate key ${value}` };
+  if (match[2] && kind !== 'redblack') return { error: `colour on ${value} outside a red-black tree` };
+  if (match[3] && kind !== 'treap') return { error: `priority on ${value} outside a treap` };
+  if (match[4] && duplicates !== 'count') return { error: `count on ${value} without the count duplicate policy` };
+
+  const node = createNode(value);
+  if (kind === 'redblack') node.color = match[2] ? 'red' : 'black';
+  if (kind === 'treap') node.priority = match[3] !== undefined ? Number(match[3]) : undefined;
+  if (match[4]) {
+    const count = Number(match[4]);
+    if (count < 2) return { error: `count of ${value} must be at least 2` };
+    node.count = count;
+  }
+  values.push(value);
+  return { node };
+}
+
+/** A plain BST written with `_` for missing children; any ordering is accepted. */
+function decodeShapedTree(text: string, duplicates: DuplicatePolicy): { tree: TreeNode | null } | { error: string } {
+  const tokens = text.split(',');
+  const values: number[] = [];
+  let pos = 0;
+  let error: string | null = null;
+  const parse = (): TreeNode | null => {
+    if (error) return null;
+    if (pos >= tokens.length) {
+      error = 'tree shape ends early';
+      return null;
+    }
+    const token = tokens[pos++];
+    if (token === '_') return null;
+    const decoded = decodeNode('bst', token, duplicates, values);
+    if ('error' in decoded) {
+      error = decoded.error;
+      return null;
+    }
+    decoded.node.left = parse();
+    decoded.node.right = parse();
+    return decoded.node;
+  };
+
+  const root = parse();
+  if (error) return { error };
+  if (pos !== tokens.length) return { error: 'extra nodes after the tree shape' };
+  return { tree: root };
+}
+
+function decodeBinaryTree(
+  kind: TreeKind,
+  text: string,
+  duplicates: DuplicatePolicy,
+): { tree: TreeNode | null } | { error: string } {
+  if (text === '') return { tree: null };
+
+  let root: TreeNode | null = null;
+  const values: number[] = [];
+  for (const token of text.split(',')) {
+    const decoded = decodeNode(kind, token, duplicates, values);
+    if ('error' in decoded) return { error: decoded.error };
+    root = insertShaped(root, decoded.node, duplicates);
+  }
+
+  // Re-inserting a pre-order reproduces it exactly only if it was a valid BST pre-order
+  if (preorderValues(root).join(',') !== values.join(',')) {
+    return { error: 'keys are not a valid BST pre-order' };
+  }
+  if (kind === 'avl') fillHeights(root);
+  const problem = checkBinaryInvariants(kind, root);
+  return problem ? { error: problem } : { tree: root };
+}
+
+function decodeBTree(text: string, order: number): { bTree: BTreeNode | null } | { error: string } {
+  if (text === '') return { bTree: null };
+
+  let pos = 0;
+  const parseNode = (): BTreeNode | null => {
+    const match = /^-?\d+(\.-?\d+)*/.exec(text.slice(pos));
+    if (!match) return null;
+    pos += match[0].length;
+    const keys = match[0].split('.').map(Number);
+    const children: BTreeNode[] = [];
+    while (text[pos] === '(') {
+      pos++;
+      const child = parseNode();
+      if (!child || text[pos] !== ')') return null;
+      pos++;
+      children.push(child);
+    }
+    return { keys, children };
+  };
+
+  const root = parseNode();
+  if (!root || pos !== text.length) return { error: 'malformed B-tree' };
+
+  // Check key ranges, fan-out, fill and that every leaf is on the same level
+  const minKeys = Math.ceil(order / 2) - 1;
+  let leafDepth = -1;
+  const check = (node: BTreeNode, depth: number, lo: number, hi: number, isRoot: boolean): string | null => {
+    if (node.keys.length > order - 1) return `node [${node.keys}] has too many keys for order ${order}`;
+    if (!isRoot && node.keys.length < minKeys) return `node [${node.keys}] has too few keys for order ${order}`;
+    for (let i = 0; i < node.keys.length; i++) {
+      const k = node.keys[i];
+      if (!Number.isSafeInteger(k) || k <= lo || k >= hi || (i > 0 && k <= node.keys[i - 1])) {
+        return `keys of [${node.keys}] are out of order`;
+      }
+    }
+    if (node.children.length === 0) {
+      if (leafDepth === -1) leafDepth = depth;
+      return leafDepth === depth ? null : 'leaves are on different levels';
+    }
+    if (node.children.length !== node.keys.length + 1) return `node [${node.keys}] has the wrong number of children`;
+    for (let i = 0; i < node.children.length; i++) {
+      const problem = check(
+        node.children[i],
+        depth + 1,
+        i === 0 ? lo : node.keys[i - 1],
+        i === node.keys.length ? hi : node.keys[i],
+        false,
+      );
+      if (problem) return problem;
+    }
+    return null;
+  };
+
+  const problem = check(root, 0, -Infinity, Infinity, true);
+  return problem ? { error: problem } : { bTree: root };
+}
+
+/** Parse a hash string (with or without the leading `#`). */
+export function decodeShareHash(hash: string): DecodeResult {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+
+  if (params.get('v') !== String(SHARE_VERSION)) {
+    return { ok: false, error: `unsupported link version "${params.get('v') ?? ''}"` };
+  }
+
+  const kind = params.get('k') as TreeKind | null;
+  if (!kind || !TREE_KINDS.includes(kind)) {
+    return { ok: false, error: `unknown tree kind "${kind ?? ''}"` };
+  }
+
+  const text = params.get('t');
+  if (text === null) return { ok: false, error: 'missing tree' };
+
+  const state: SharedState = { kind, tree: null, bTree: null, bTreeOrder: DEFAULT_BTREE_ORDER, duplicates: 'reject' };
+
+  if (kind === 'btree') {
+    const order = parseInteger(params.get('o'));
+    if (order === null || !BTREE_ORDERS.includes(order)) {
+      return { ok: false, error: `unsupported B-tree order "${params.get('o') ?? ''}"` };
+    }
+    const decoded = decodeBTree(text, order);
+    if ('error' in decoded) return { ok: false, error: decoded.error };
+    state.bTree = decoded.bTree;
+    state.bTreeOrder = order;
+  } else {
+    if (params.has('d')) {
+      const duplicates = params.get('d') as DuplicatePolicy;
+      if (kind !== 'bst' || !DUPLICATE_POLICIES.includes(duplicates)) {
+        return { ok: false, error: `unsupported duplicate policy "${duplicates}"` };
+      }
+      state.duplicates = duplicates;
+    }
+    const shaped = params.has('f');
+    if (shaped && (kind !== 'bst' || params.get('f') !== '1')) return { ok: false, error: 'free-form shapes are only for plain BSTs' };
+    const decoded = shaped ? decodeShapedTree(text, state.duplicates) : decodeBinaryTree(kind, text, state.duplicates);
+    if ('error' in decoded) return { ok: false, error: decoded.error };
+    state.tree = decoded.tree;
+  }
+
+  const op = params.get('op') as OperationType | null;
+  if (op !== null) {
+    if (!isReplayable(kind, op)) return { ok: false, error: `operation "${op}" cannot be replayed` };
+    state.op = op;
+
+    if (params.has('x')) {
+      const value = parseInteger(params.get('x'));
+      if (value === null) return { ok: false, error: 'bad operation argument' };
+      state.value = value;
+    } else if (!NO_ARGUMENT_OPS.includes(op)) {
+      return { ok: false, error: `operation "${op}" needs an argument` };
+    }
+    if (TWO_ARGUMENT_OPS.includes(op)) {
+      const value2 = parseInteger(params.get('y'));
+      if (value2 === null) return { ok: false, error: `operation "${op}" needs a second argument` };
+      state.value2 = value2;
+    }
+    if (params.has('s')) {
+      const step = parseInteger(params.get('s'));
+      if (step === null || step < 1) return { ok: false, error: 'bad step index' };
+      state.step = step;
+    }
+    if (params.has('ts')) {
+      const style = params.get('ts') as TraversalStyle;
+      if (!stylesFor(op).includes(style)) return { ok: false, error: `"${op}" cannot run as "${style}"` };
+      state.style = style;
+    }
+  }
+
+  return { ok: true, state };
+}
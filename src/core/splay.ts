@@ -0,0 +1,269 @@
+import type { TreeNode, AnimationStep, HighlightType, HighlightEdge, NodeId } from '../types';
+import type { RootRef } from './bst';
+import {
+  createNode,
+  cloneTree,
+  rotateLeft,
+  rotateRight,
+  replaceChild,
+  makeStep,
+  makeTraversalStep,
+} from './bst';
+
+// ── Splay ──────────────────────────────────────────────────────────────────
+// Each operation's pseudocode ends with the same splay loop; `base` is the
+// index of its first line in that listing:
+//  +0: while x != root
+//  +1:   if parent(x) is root
+//  +2:     zig: rotate x over parent
+//  +3:   else if x and parent on same side
+//  +4:     zig-zig: rotate parent, then x
+//  +5:   else
+//  +6:     zig-zag: rotate x twice
+
+interface StepContext {
+  steps: AnimationStep[];
+  pathNodes: Map<NodeId, HighlightType>;
+  pathEdges: HighlightEdge[];
+}
+
+/** Rotate `child` above `parent`, returning the new subtree root. */
+function rotateUp(parent: TreeNode, child: TreeNode): TreeNode {
+  return parent.left === child ? rotateRight(parent) : rotateLeft(parent);
+}
+
+/**
+ * Splay `x` upwards until it sits directly below `stopAt` (or becomes the
+ * root when `stopAt` is null). `path` holds x's ancestors below `stopAt`,
+ * top-down. Every zig, zig-zig and zig-zag is recorded as its own step.
+ */
+function splay(
+  ref: RootRef,
+  x: TreeNode,
+  path: TreeNode[],
+  stopAt: TreeNode | null,
+  ctx: StepContext,
+  base: number,
+) {
+  const { steps, pathNodes, pathEdges } = ctx;
+  const snapshot = (description: string, line: number) =>
+    steps.push(makeTraversalStep(ref.root, description, x.id, 'found', pathNodes, pathEdges, line));
+
+  // Descent edges stop making sense once nodes start moving
+  pathEdges.length = 0;
+  pathNodes.set(x.id, 'found');
+  snapshot(`Splay ${x.value} ${stopAt ? `below ${stopAt.value}` : 'to the root'}`, base);
+
+  while (path.length > 0) {
+    const parent = path.pop()!;
+
+    if (path.length === 0) {
+      snapshot(`Parent ${parent.value} is the top: zig`, base + 1);
+      replaceChild(ref, stopAt, parent, rotateUp(parent, x));
+      snapshot(`Zig: rotate ${x.value} over ${parent.value}`, base + 2);
+      break;
+    }
+
+    const grand = path.pop()!;
+    const above = path.length > 0 ? path[path.length - 1] : stopAt;
+    const sameSide = (grand.left === parent) === (parent.left === x);
+
+    if (sameSide) {
+      snapshot(`${x.value} and ${parent.value} are both ${parent.left === x ? 'left' : 'right'} children: zig-zig`, base + 3);
+      const mid = rotateUp(grand, parent);
+      replaceChild(ref, above, grand, rotateUp(mid, x));
+      snapshot(`Zig-zig: rotate ${parent.value} over ${grand.value}, then ${x.value} over ${parent.value}`, base + 4);
+    } else {
+      snapshot(`${x.value} is a ${parent.left === x ? 'left' : 'right'} child of a ${grand.left === parent ? 'left' : 'right'} child: zig-zag`, base + 5);
+      if (grand.left === parent) grand.left = rotateUp(parent, x);
+      else grand.right = rotateUp(parent, x);
+      replaceChild(ref, above, grand, rotateUp(grand, x));
+      snapshot(`Zig-zag: rotate ${x.value} over ${parent.value}, then over ${grand.value}`, base + 6);
+    }
+  }
+}
+
+/**
+ * Walk towards `value`, recording compare steps. Returns the node holding
+ * `value` (or the last node reached) and its ancestors, top-down.
+ */
+function descend(
+  ref: RootRef,
+  value: number,
+  ctx: StepContext,
+  lines: { visit: number; found: number; left: number; right: number },
+): { node: TreeNode | null; path: TreeNode[] } {
+  const { steps, pathNodes, pathEdges } = ctx;
+  const path: TreeNode[] = [];
+  let node = ref.root;
+
+  while (node) {
+    if (path.length > 0) pathEdges.push([path[path.length - 1].id, node.id]);
+    pathNodes.set(node.id, 'visiting');
+    steps.push(makeTraversalStep(ref.root, `Visit node ${node.value}`, node.id, 'visiting', pathNodes, pathEdges, lines.visit));
+
+    if (value === node.value) {
+      steps.push(makeTraversalStep(ref.root, `${node.value} == ${value}. Found!`, node.id, 'found', pathNodes, pathEdges, lines.found));
+      return { node, path };
+    }
+
+    const next: TreeNode | null = value < node.value ? node.left : node.right;
+    steps.push(makeTraversalStep(
+      ref.root,
+      value < node.value ? `${value} < ${node.value}, go left` : `${value} > ${node.value}, go right`,
+      node.id,
+      'visiting',
+      pathNodes,
+      pathEdges,
+      value < node.value ? lines.left : lines.right,
+    ));
+    if (!next) return { node, path };
+    path.push(node);
+    node = next;
+  }
+  return { node: null, path };
+}
+
+// ── Search ─────────────────────────────────────────────────────────────────
+// Pseudocode lines (0-indexed):
+//  0: if this == null
+//  1:   splay last node; return null
+//  2: else if this.key == search value
+//  3:   splay(this); return this
+//  4: else if this.key < search value
+//  5:   search right
+//  6: else search left
+//  7+: splay loop
+
+export function searchSplay(
+  root: TreeNode | null,
+  value: number,
+): { root: TreeNode | null; steps: AnimationStep[] } {
+  const ctx: StepContext = { steps: [], pathNodes: new Map(), pathEdges: [] };
+  const ref: RootRef = { root: cloneTree(root) };
+
+  const { node, path } = descend(ref, value, ctx, { visit: 0, found: 2, left: 6, right: 5 });
+  if (!node) {
+    ctx.steps.push(makeStep(ref.root, `${value} not found in tree`, [], [], 1));
+    return { root: ref.root, steps: ctx.steps };
+  }
+
+  const found = node.value === value;
+  if (!found) {
+    ctx.steps.push(makeTraversalStep(ref.root, `Reached null, splay last node ${node.value}`, node.id, 'visiting', ctx.pathNodes, ctx.pathEdges, 1));
+  }
+  splay(ref, node, path, null, ctx, 7);
+
+  ctx.steps.push(makeStep(
+    ref.root,
+    found ? `Value ${value} is found and now at the root.` : `${value} not found in tree`,
+    [...ctx.pathNodes.entries()],
+    [],
+    found ? 3 : 1,
+  ));
+  return { root: ref.root, steps: ctx.steps };
+}
+
+// ── Insert ─────────────────────────────────────────────────────────────────
+// Pseudocode lines (0-indexed):
+//  0: if this == null
+//  1:   create new node
+//  2: else if value < this.key
+//  3:   go left
+//  4: else if value > this.key
+//  5:   go right
+//  6+: splay loop
+
+export function insertSplay(
+  root: TreeNode | null,
+  value: number,
+): { root: TreeNode; steps: AnimationStep[] } {
+  const ctx: StepContext = { steps: [], pathNodes: new Map(), pathEdges: [] };
+  const ref: RootRef = { root: cloneTree(root) };
+
+  if (!ref.root) {
+    const newRoot = createNode(value);
+    ctx.steps.push(makeStep(newRoot, `Insert ${value} as root`, [[newRoot.id, 'inserting']], [], 1));
+    return { root: newRoot, steps: ctx.steps };
+  }
+
+  const { node, path } = descend(ref, value, ctx, { visit: 0, found: 0, left: 2, right: 4 });
+  const last = node!;
+
+  const present = last.value === value;
+  let target = last;
+  if (present) {
+    ctx.pathNodes.set(last.id, 'found');
+    ctx.steps.push(makeTraversalStep(ref.root, `${value} is already in the tree: not inserted, splay it instead`, last.id, 'found', ctx.pathNodes, ctx.pathEdges, 0));
+  } else {
+    target = createNode(value);
+    if (value < last.value) last.left = target;
+    else last.right = target;
+    path.push(last);
+    ctx.pathEdges.push([last.id, target.id]);
+    ctx.pathNodes.set(target.id, 'inserting');
+    ctx.steps.push(makeTraversalStep(ref.root, `Inserted ${value}`, target.id, 'inserting', ctx.pathNodes, ctx.pathEdges, 1));
+  }
+
+  splay(ref, target, path, null, ctx, 6);
+
+  const outcome = present ? `${value} was already in the tree, now at the root` : `Inserted ${value}, now at the root`;
+  ctx.steps.push(makeStep(ref.root, outcome, [...ctx.pathNodes.entries()], []));
+  return { root: ref.root!, steps: ctx.steps };
+}
+
+// ── Remove ─────────────────────────────────────────────────────────────────
+// Pseudocode lines (0-indexed):
+//  0: splay(value) to the root
+//  1: if root.key != value: return (not found)
+//  2: if root.left == null: root = root.right
+//  3: else
+//  4:   splay max of left subtree below root
+//  5:   max.right = root.right; root = max
+//  6+: splay loop
+
+export function removeSplay(
+  root: TreeNode | null,
+  value: number,
+): { root: TreeNode | null; steps: AnimationStep[] } {
+  const ctx: StepContext = { steps: [], pathNodes: new Map(), pathEdges: [] };
+  const ref: RootRef = { root: cloneTree(root) };
+
+  const { node, path } = descend(ref, value, ctx, { visit: 0, found: 0, left: 0, right: 0 });
+  if (!node) {
+    ctx.steps.push(makeStep(ref.root, `${value} not found`, [], [], 1));
+    return { root: ref.root, steps: ctx.steps };
+  }
+
+  splay(ref, node, path, null, ctx, 6);
+
+  if (node.value !== value) {
+    ctx.steps.push(makeStep(ref.root, `${value} not found`, [...ctx.pathNodes.entries()], [], 1));
+    return { root: ref.root, steps: ctx.steps };
+  }
+
+  ctx.pathNodes.set(node.id, 'removing');
+  ctx.steps.push(makeTraversalStep(ref.root, `${value} is at the root, removing`, node.id, 'removing', ctx.pathNodes, ctx.pathEdges, 1));
+
+  if (!node.left) {
+    ref.root = node.right;
+    ctx.steps.push(makeStep(ref.root, `No left subtree, right child becomes the root`, [], [], 2));
+  } else {
+    // Splay the left subtree's maximum up to be root.left; it then has no right child
+    const maxPath: TreeNode[] = [];
+    let max = node.left;
+    while (max.right) {
+      maxPath.push(max);
+      max = max.right;
+    }
+    ctx.steps.push(makeTraversalStep(ref.root, `Largest key in left subtree is ${max.value}`, max.id, 'found', ctx.pathNodes, ctx.pathEdges, 4));
+    splay(ref, max, maxPath, node, ctx, 6);
+
+    max.right = node.right;
+    ref.root = max;
+    ctx.steps.push(makeTraversalStep(ref.root, `Attach right subtree to ${max.value}; ${max.value} is the new root`, max.id, 'found', ctx.pathNodes, ctx.pathEdges, 5));
+  }
+
+  ctx.steps.push(makeStep(ref.root, `Removal complete`, [...ctx.pathNodes.entries()], []));
+  return { root: ref.root, steps: ctx.steps };
+}
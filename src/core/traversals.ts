@@ -0,0 +1,316 @@
+import type { TreeNode, AnimationStep, HighlightType, HighlightEdge, NodeId, OperationType, TraversalStyle } from '../types';
+import { inorderTraversal, preorderTraversal, postorderTraversal, makeStep, makeTraversalStep } from './bst';
+
+/**
+ * Depth-first traversals without recursion.
+ *
+ * The iterative versions keep an explicit stack, shown under the canvas at
+ * every step. Morris traversal needs no stack: it temporarily threads each
+ * in-order predecessor's empty right pointer back to its successor. The
+ * threads are drawn as dashed links; the tree snapshots themselves are never
+ * modified, so the layout stays a tree.
+ */
+
+export type DepthFirstOp = 'inorder' | 'preorder' | 'postorder';
+
+export const TRAVERSAL_STYLES: { style: TraversalStyle; label: string }[] = [
+  { style: 'recursive', label: 'Recursive' },
+  { style: 'iterative', label: 'Iterative' },
+  { style: 'morris', label: 'Morris' },
+];
+
+const STYLES_BY_OP: Record<DepthFirstOp, TraversalStyle[]> = {
+  inorder: ['recursive', 'iterative', 'morris'],
+  preorder: ['recursive', 'iterative', 'morris'],
+  postorder: ['recursive', 'iterative'],
+};
+
+export function isDepthFirstOp(op: OperationType): op is DepthFirstOp {
+  return op in STYLES_BY_OP;
+}
+
+/** Styles on offer for `op` (none for operations that are not DFS traversals). */
+export function stylesFor(op: OperationType): TraversalStyle[] {
+  return isDepthFirstOp(op) ? STYLES_BY_OP[op] : [];
+}
+
+/** The style `op` actually runs with: `style` if offered, else recursive. */
+export function resolveStyle(op: DepthFirstOp, style: TraversalStyle): TraversalStyle {
+  return STYLES_BY_OP[op].includes(style) ? style : 'recursive';
+}
+
+export function traversalSteps(root: TreeNode | null, op: DepthFirstOp, style: TraversalStyle): AnimationStep[] {
+  switch (resolveStyle(op, style)) {
+    case 'iterative':
+      return op === 'inorder' ? iterativeInorder(root) : op === 'preorder' ? iterativePreorder(root) : iterativePostorder(root);
+    case 'morris':
+      return morrisTraversal(root, op === 'preorder');
+    default:
+      return op === 'inorder' ? inorderTraversal(root) : op === 'preorder' ? preorderTraversal(root) : postorderTraversal(root);
+  }
+}
+
+// ── Shared step state ──────────────────────────────────────────────────────
+//
+// Nodes waiting on the stack are marked 'path' and turn 'found' once visited.
+
+function createRecorder(root: TreeNode | null, showStack = true) {
+  const steps: AnimationStep[] = [];
+  const visitedNodes = new Map<NodeId, HighlightType>();
+  const visitedEdges: HighlightEdge[] = [];
+  const stack: TreeNode[] = [];
+  const threads: Array<[NodeId, NodeId]> = [];
+
+  function push(description: string, node: TreeNode, type: HighlightType, codeLine: number, marked: number[] = []) {
+    const step = makeTraversalStep(root, description, node.id, type, visitedNodes, visitedEdges, codeLine);
+    const aux = showStack ? { kind: 'stack' as const, items: stack.map((n) => n.value), marked } : undefined;
+    steps.push({ ...step, aux, threads: [...threads] });
+  }
+
+  function visit(node: TreeNode) {
+    visitedNodes.set(node.id, 'found');
+  }
+
+  /** Follow the edge parent → child, once */
+  function follow(parent: TreeNode, child: TreeNode) {
+    if (!visitedEdges.some(([a, b]) => a === parent.id && b === child.id)) {
+      visitedEdges.push([parent.id, child.id]);
+    }
+  }
+
+  function finish(description: string) {
+    steps.push({
+      ...makeStep(root, description, [...visitedNodes.entries()], [...visitedEdges]),
+      aux: showStack ? { kind: 'stack', items: [] } : undefined,
+    });
+    return steps;
+  }
+
+  return { stack, threads, visitedNodes, push, visit, follow, finish };
+}
+
+// ── Iterative in-order ─────────────────────────────────────────────────────
+// Pseudocode (0-indexed):
+//  0: stack = []
+//  1: node = root
+//  2: while node != null or stack not empty
+//  3:   while node != null
+//  4:     stack.push(node)
+//  5:     node = node.left
+//  6:   node = stack.pop()
+//  7:   visit node
+//  8:   node = node.right
+
+export function iterativeInorder(root: TreeNode | null): AnimationStep[] {
+  const rec = createRecorder(root);
+  const { stack } = rec;
+  let node = root;
+
+  while (node || stack.length > 0) {
+    while (node) {
+      stack.push(node);
+      rec.visitedNodes.set(node.id, 'path');
+      rec.push(`Push ${node.value}`, node, 'visiting', 4, [node.value]);
+      if (node.left) {
+        rec.follow(node, node.left);
+        rec.push(`Go left from ${node.value}`, node, 'visiting', 5);
+      }
+      node = node.left;
+    }
+
+    node = stack.pop()!;
+    rec.push(`Pop ${node.value}`, node, 'visiting', 6);
+    rec.visit(node);
+    rec.push(`Visit ${node.value} (in-order)`, node, 'found', 7);
+
+    if (node.right) {
+      rec.follow(node, node.right);
+      rec.push(`Go right from ${node.value}`, node, 'found', 8);
+    }
+    node = node.right;
+  }
+
+  return rec.finish('Iterative in-order traversal complete');
+}
+
+// ── Iterative pre-order ────────────────────────────────────────────────────
+// Pseudocode (0-indexed):
+//  0: stack = [root]
+//  1: while stack not empty
+//  2:   node = stack.pop()
+//  3:   visit node
+//  4:   if node.right != null
+//  5:     stack.push(node.right)
+//  6:   if node.left != null
+//  7:     stack.push(node.left)
+//
+// The right child goes on first so the left one is popped first.
+
+export function iterativePreorder(root: TreeNode | null): AnimationStep[] {
+  const rec = createRecorder(root);
+  const { stack } = rec;
+
+  if (root) {
+    stack.push(root);
+    rec.visitedNodes.set(root.id, 'path');
+    rec.push(`Push the root ${root.value}`, root, 'path', 0, [root.value]);
+  }
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    rec.push(`Pop ${node.value}`, node, 'visiting', 2);
+    rec.visit(node);
+    rec.push(`Visit ${node.value} (pre-order)`, node, 'found', 3);
+
+    for (const [child, line] of [[node.right, 5], [node.left, 7]] as const) {
+      if (!child) continue;
+      stack.push(child);
+      rec.visitedNodes.set(child.id, 'path');
+      rec.follow(node, child);
+      rec.push(`Push ${child.value}`, node, 'found', line, [child.value]);
+    }
+  }
+
+  return rec.finish('Iterative pre-order traversal complete');
+}
+
+// ── Iterative post-order ───────────────────────────────────────────────────
+// Pseudocode (0-indexed):
+//  0: stack = [], last = null
+//  1: node = root
+//  2: while node != null or stack not empty
+//  3:   if node != null
+//  4:     stack.push(node)
+//  5:     node = node.left
+//  6:   else
+//  7:     top = stack.peek()
+//  8:     if top.right != null and last != top.right
+//  9:       node = top.right
+// 10:     else
+// 11:       visit top
+// 12:       last = stack.pop()
+
+export function iterativePostorder(root: TreeNode | null): AnimationStep[] {
+  const rec = createRecorder(root);
+  const { stack } = rec;
+  let node = root;
+  let last: TreeNode | null = null;
+
+  while (node || stack.length > 0) {
+    if (node) {
+      stack.push(node);
+      rec.visitedNodes.set(node.id, 'path');
+      rec.push(`Push ${node.value}`, node, 'visiting', 4, [node.value]);
+      if (node.left) rec.follow(node, node.left);
+      node = node.left;
+      continue;
+    }
+
+    const top = stack[stack.length - 1];
+    rec.push(`Peek ${top.value}`, top, 'visiting', 7);
+    if (top.right && last !== top.right) {
+      rec.follow(top, top.right);
+      rec.push(`Right subtree of ${top.value} not done yet, go right`, top, 'visiting', 9);
+      node = top.right;
+    } else {
+      rec.visit(top);
+      rec.push(`Visit ${top.value} (post-order)`, top, 'found', 11);
+      last = stack.pop()!;
+      rec.push(`Pop ${top.value}`, top, 'found', 12);
+    }
+  }
+
+  return rec.finish('Iterative post-order traversal complete');
+}
+
+// ── Morris traversal ───────────────────────────────────────────────────────
+// In-order pseudocode (0-indexed):
+//  0: node = root
+//  1: while node != null
+//  2:   if node.left == null
+//  3:     visit node
+//  4:     node = node.right
+//  5:   else
+//  6:     pred = rightmost node of node.left (stop at node)
+//  7:     if pred.right == null
+//  8:       pred.right = node        (thread)
+//  9:       node = node.left
+// 10:     else
+// 11:       pred.right = null        (unthread)
+// 12:       visit node
+// 13:       node = node.right
+//
+// Pre-order visits a node when threading instead of when unthreading:
+//  0..7 as above, 8: visit node, 9: pred.right = node, 10: node = node.left,
+//  11: else, 12: pred.right = null, 13: node = node.right
+
+const MORRIS_LINES = {
+  inorder: { visitLeaf: 3, goRightLeaf: 4, pred: 6, thread: 8, goLeft: 9, unthread: 11, visitThreaded: 12, goRight: 13 },
+  preorder: { visitLeaf: 3, goRightLeaf: 4, pred: 6, visitThreaded: 8, thread: 9, goLeft: 10, unthread: 12, goRight: 13 },
+};
+
+export function morrisTraversal(root: TreeNode | null, preorder = false): AnimationStep[] {
+  // Morris uses no stack, so there is no strip to show
+  const rec = createRecorder(root, false);
+  const lines = preorder ? MORRIS_LINES.preorder : MORRIS_LINES.inorder;
+  const label = preorder ? 'pre-order' : 'in-order';
+  // Threads are tracked here instead of written into the nodes
+  const threadTo = new Map<TreeNode, TreeNode>();
+  const rightOf = (n: TreeNode) => n.right ?? threadTo.get(n) ?? null;
+  let node = root;
+
+  /** Move right, along a real edge or back up a thread */
+  const goRight = (from: TreeNode, codeLine: number): TreeNode | null => {
+    const next = rightOf(from);
+    if (from.right) rec.follow(from, from.right);
+    if (next) {
+      const how = from.right ? `go right to ${next.value}` : `follow the thread back to ${next.value}`;
+      rec.push(`From ${from.value}, ${how}`, from, 'found', codeLine);
+    }
+    return next;
+  };
+
+  const syncThreads = () => {
+    rec.threads.length = 0;
+    for (const [from, to] of threadTo) rec.threads.push([from.id, to.id]);
+  };
+
+  while (node) {
+    if (!node.left) {
+      rec.visit(node);
+      rec.push(`${node.value} has no left child: visit it (${label})`, node, 'found', lines.visitLeaf);
+      node = goRight(node, lines.goRightLeaf);
+      continue;
+    }
+
+    // Rightmost node of the left subtree, not following a thread back to `node`
+    let pred = node.left;
+    while (pred.right) pred = pred.right;
+    const threaded = threadTo.get(pred) === node;
+    rec.push(`In-order predecessor of ${node.value} is ${pred.value}`, pred, 'visiting', lines.pred);
+
+    if (!threaded) {
+      if (preorder) {
+        rec.visit(node);
+        rec.push(`Visit ${node.value} (${label})`, node, 'found', lines.visitThreaded);
+      }
+      threadTo.set(pred, node);
+      syncThreads();
+      rec.push(`Thread ${pred.value} → ${node.value}`, pred, 'inserting', lines.thread);
+      rec.follow(node, node.left);
+      rec.push(`Go left from ${node.value}`, node, preorder ? 'found' : 'visiting', lines.goLeft);
+      node = node.left;
+    } else {
+      threadTo.delete(pred);
+      syncThreads();
+      rec.push(`Remove the thread ${pred.value} → ${node.value}`, pred, 'removing', lines.unthread);
+      if (!preorder) {
+        rec.visit(node);
+        rec.push(`Visit ${node.value} (${label})`, node, 'found', lines.visitThreaded);
+      }
+      node = goRight(node, lines.goRight);
+    }
+  }
+
+  return rec.finish(`Morris ${label} traversal complete`);
+}
@@ -0,0 +1,163 @@
+import type { TreeNode, AnimationStep, HighlightType, HighlightEdge, NodeId } from '../types';
+import type { RootRef } from './bst';
+import {
+  createNode,
+  cloneTree,
+  rotateLeft,
+  rotateRight,
+  replaceChild,
+  makeStep,
+  makeTraversalStep,
+} from './bst';
+
+// ── Priorities ─────────────────────────────────────────────────────────────
+//
+// Treaps keep BST order on keys and max-heap order on random priorities, so
+// the expected shape is that of a BST built from a random insertion order.
+
+const MAX_PRIORITY = 100;
+
+function randomPriority(): number {
+  return Math.floor(Math.random() * MAX_PRIORITY);
+}
+
+function priorityOf(node: TreeNode | null): number {
+  return node?.priority ?? -1;
+}
+
+// ── Insert ─────────────────────────────────────────────────────────────────
+// Pseudocode lines (0-indexed):
+//  0: if this == null
+//  1:   create node with random priority
+//  2: else if value < this.key
+//  3:   go left
+//  4: else if value > this.key
+//  5:   go right
+//  6: while priority > parent.priority
+//  7:   rotate node above parent
+
+export function insertTreap(
+  root: TreeNode | null,
+  value: number,
+): { root: TreeNode; steps: AnimationStep[] } {
+  const steps: AnimationStep[] = [];
+  const pathEdges: HighlightEdge[] = [];
+  const pathNodes = new Map<NodeId, HighlightType>();
+  const ref: RootRef = { root: cloneTree(root) };
+  const path: TreeNode[] = [];
+
+  const snapshot = (description: string, current: NodeId, type: HighlightType, line: number) =>
+    steps.push(makeTraversalStep(ref.root, description, current, type, pathNodes, pathEdges, line));
+
+  let node = ref.root;
+  while (node) {
+    if (path.length > 0) pathEdges.push([path[path.length - 1].id, node.id]);
+    path.push(node);
+    pathNodes.set(node.id, 'visiting');
+    snapshot(`Compare ${value} with ${node.value}`, node.id, 'visiting', 0);
+
+    if (value < node.value) {
+      snapshot(`${value} < ${node.value}, go left`, node.id, 'visiting', 2);
+      node = node.left;
+    } else if (value > node.value) {
+      snapshot(`${value} > ${node.value}, go right`, node.id, 'visiting', 4);
+      node = node.right;
+    } else {
+      snapshot(`${value} is already in the tree`, node.id, 'found', 0);
+      return { root: ref.root!, steps };
+    }
+  }
+
+  const leaf: TreeNode = { ...createNode(value), priority: randomPriority() };
+  const parent = path.length > 0 ? path[path.length - 1] : null;
+  if (!parent) ref.root = leaf;
+  else if (value < parent.value) parent.left = leaf;
+  else parent.right = leaf;
+  if (parent) pathEdges.push([parent.id, leaf.id]);
+  pathNodes.set(leaf.id, 'inserting');
+  snapshot(`Inserted ${value} with priority ${leaf.priority}`, leaf.id, 'inserting', 1);
+
+  // Bubble up while the heap order is violated
+  while (path.length > 0) {
+    const up = path.pop()!;
+    if (priorityOf(leaf) <= priorityOf(up)) {
+      snapshot(`Priority ${leaf.priority} <= ${up.priority} of parent ${up.value}, heap order holds`, leaf.id, 'inserting', 6);
+      break;
+    }
+    snapshot(`Priority ${leaf.priority} > ${up.priority} of parent ${up.value}`, leaf.id, 'inserting', 6);
+    const above = path.length > 0 ? path[path.length - 1] : null;
+    replaceChild(ref, above, up, up.left === leaf ? rotateRight(up) : rotateLeft(up));
+    snapshot(`Rotate ${value} above ${up.value}`, leaf.id, 'inserting', 7);
+  }
+
+  steps.push(makeStep(ref.root, `Inserted ${value}`, [...pathNodes.entries()], [...pathEdges]));
+  return { root: ref.root!, steps };
+}
+
+// ── Remove ─────────────────────────────────────────────────────────────────
+// Pseudocode lines (0-indexed):
+//  0: if this == null
+//  1:   return (not found)
+//  2: else if value < this.key
+//  3:   go left
+//  4: else if value > this.key
+//  5:   go right
+//  6: else // found the node
+//  7:   while node has children
+//  8:     rotate higher-priority child up
+//  9:   remove leaf
+
+export function removeTreap(
+  root: TreeNode | null,
+  value: number,
+): { root: TreeNode | null; steps: AnimationStep[] } {
+  const steps: AnimationStep[] = [];
+  const pathEdges: HighlightEdge[] = [];
+  const pathNodes = new Map<NodeId, HighlightType>();
+  const ref: RootRef = { root: cloneTree(root) };
+
+  const snapshot = (description: string, current: NodeId, type: HighlightType, line: number) =>
+    steps.push(makeTraversalStep(ref.root, description, current, type, pathNodes, pathEdges, line));
+
+  let parent: TreeNode | null = null;
+  let node = ref.root;
+  while (node && node.value !== value) {
+    if (parent) pathEdges.push([parent.id, node.id]);
+    pathNodes.set(node.id, 'visiting');
+    snapshot(`Visit ${node.value}`, node.id, 'visiting', 0);
+
+    if (value < node.value) {
+      snapshot(`${value} < ${node.value}, go left`, node.id, 'visiting', 2);
+      parent = node;
+      node = node.left;
+    } else {
+      snapshot(`${value} > ${node.value}, go right`, node.id, 'visiting', 4);
+      parent = node;
+      node = node.right;
+    }
+  }
+
+  if (!node) {
+    steps.push(makeStep(ref.root, `${value} not found`, [...pathNodes.entries()], [...pathEdges], 1));
+    return { root: ref.root, steps };
+  }
+
+  if (parent) pathEdges.push([parent.id, node.id]);
+  pathNodes.set(node.id, 'removing');
+  snapshot(`Found ${value}, removing`, node.id, 'removing', 6);
+
+  // Rotate the node down until it becomes a leaf
+  while (node.left || node.right) {
+    const child = priorityOf(node.left) > priorityOf(node.right) ? node.left! : node.right!;
+    snapshot(`Child ${child.value} has the higher priority (${child.priority})`, node.id, 'removing', 7);
+    replaceChild(ref, parent, node, child === node.left ? rotateRight(node) : rotateLeft(node));
+    parent = child;
+    snapshot(`Rotate ${child.value} above ${value}`, node.id, 'removing', 8);
+  }
+
+  replaceChild(ref, parent, node, null);
+  steps.push(makeStep(ref.root, `${value} is a leaf, remove it`, [...pathNodes.entries()], [...pathEdges], 9));
+
+  steps.push(makeStep(ref.root, `Removal complete`, [...pathNodes.entries()], [...pathEdges]));
+  return { root: ref.root, steps };
+}
@@ -0,0 +1,159 @@
+import type { TreeNode, TreeKind, BinaryTreeKind, AnimationStep, DuplicatePolicy, NodeId } from '../types';
+import { insertNode, removeNode, createRandomTree } from './bst';
+import { insertAVL, removeAVL } from './avl';
+import { insertRB, removeRB } from './redblack';
+import { searchSplay, insertSplay, removeSplay } from './splay';
+import { insertTreap, removeTreap } from './treap';
+import { dswRebalance, buildBalanced } from './rebalance';
+
+/**
+ * Registry of tree variants selectable from the sidebar.
+ *
+ * Every variant shares the plain BST read-only operations (traversals,
+ * predecessor, …) and only swaps out the mutating ones. Search is shared
+ * too unless the variant restructures on access (splay trees). Only the
+ * plain BST takes a duplicate policy; the other variants ignore equal keys.
+ */
+
+type Mutation = (root: TreeNode | null, value: number, duplicates?: DuplicatePolicy) => { root: TreeNode | null; steps: AnimationStep[] };
+type Restructure = (root: TreeNode | null) => { root: TreeNode | null; steps: AnimationStep[] };
+type Build = (values: number[]) => { root: TreeNode | null; steps: AnimationStep[] };
+
+export interface TreeVariant {
+  /** Short name used in menus and step descriptions */
+  label: string;
+  /** Full name shown in the header */
+  title: string;
+  insert: Mutation;
+  remove: Mutation;
+  /** Search that reshapes the tree; omitted variants use the plain BST search */
+  search?: Mutation;
+  /** Rebalance in place; omitted where rotations alone would break the variant's invariants */
+  rebalance?: Restructure;
+  /** Build a tree of minimal height from a list of keys; omitted on the same grounds */
+  buildBalanced?: Build;
+}
+
+export const TREE_VARIANTS: Record<BinaryTreeKind, TreeVariant> = {
+  bst: {
+    label: 'BST',
+    title: 'Binary Search Tree',
+    insert: insertNode,
+    remove: removeNode,
+    rebalance: dswRebalance,
+    buildBalanced,
+  },
+  avl: { label: 'AVL Tree', title: 'AVL Tree', insert: insertAVL, remove: removeAVL },
+  redblack: { label: 'Red-Black Tree', title: 'Red-Black Tree', insert: insertRB, remove: removeRB },
+  splay: {
+    label: 'Splay Tree',
+    title: 'Splay Tree',
+    insert: insertSplay,
+    remove: removeSplay,
+    search: searchSplay,
+    rebalance: dswRebalance,
+    buildBalanced,
+  },
+  treap: { label: 'Treap', title: 'Treap', insert: insertTreap, remove: removeTreap },
+};
+
+export function getVariant(kind: BinaryTreeKind): TreeVariant {
+  return TREE_VARIANTS[kind];
+}
+
+// The B-tree is not built from `TreeNode`s, so it lives outside the registry
+// (see ./btree) and only contributes its names to the kind picker.
+const BTREE_NAMES = { label: 'B-Tree', title: 'B-Tree' };
+
+/** Every selectable kind, in sidebar order. */
+export const TREE_KINDS: TreeKind[] = [...(Object.keys(TREE_VARIANTS) as BinaryTreeKind[]), 'btree'];
+
+export function getKindNames(kind: TreeKind): { label: string; title: string } {
+  return kind === 'btree' ? BTREE_NAMES : TREE_VARIANTS[kind];
+}
+
+// ── Building / converting ──────────────────────────────────────────────────
+
+/** Pre-order keys: re-inserting them into a plain BST reproduces the shape. */
+export function preorderValues(node: TreeNode | null, out: number[] = []): number[] {
+  if (!node) return out;
+  out.push(node.value);
+  preorderValues(node.left, out);
+  preorderValues(node.right, out);
+  return out;
+}
+
+/** Pre-order keys with each counted key repeated, so re-inserting them keeps the counts. */
+export function preorderCopies(root: TreeNode | null): number[] {
+  const copies: number[] = [];
+  (function walk(node: TreeNode | null) {
+    if (!node) return;
+    for (let i = 0; i < (node.count ?? 1); i++) copies.push(node.value);
+    walk(node.left);
+    walk(node.right);
+  })(root);
+  return copies;
+}
+
+/** Build a tree of the given kind by inserting `values` in order (no steps kept). */
+export function buildTree(kind: BinaryTreeKind, values: number[], duplicates?: DuplicatePolicy): TreeNode | null {
+  const { insert } = getVariant(kind);
+  let root: TreeNode | null = null;
+  for (const v of values) {
+    root = insert(root, v, duplicates).root;
+  }
+  return root;
+}
+
+/**
+ * Give nodes of a rebuilt tree the ids their keys had in `source`, so the
+ * canvas glides them to their new places instead of fading them out and in.
+ * Copies of a key are paired off in pre-order.
+ */
+function carryIds(source: TreeNode | null, target: TreeNode | null): TreeNode | null {
+  const ids = new Map<number, NodeId[]>();
+  (function collect(node: TreeNode | null) {
+    if (!node) return;
+    ids.set(node.value, [...(ids.get(node.value) ?? []), node.id]);
+    collect(node.left);
+    collect(node.right);
+  })(source);
+  (function assign(node: TreeNode | null) {
+    if (!node) return;
+    const id = ids.get(node.value)?.shift();
+    if (id !== undefined) node.id = id;
+    assign(node.left);
+    assign(node.right);
+  })(target);
+  return target;
+}
+
+/**
+ * Rebuild a plain BST under another duplicate policy. Every copy of a key is
+ * re-inserted, so the new policy decides which of them survive and where.
+ */
+export function rebuildWithPolicy(root: TreeNode | null, duplicates: DuplicatePolicy): TreeNode | null {
+  return carryIds(root, buildTree('bst', preorderCopies(root), duplicates));
+}
+
+/** Whether a plain BST holds a key more than once, as a count or as separate nodes. */
+export function hasDuplicateKeys(root: TreeNode | null): boolean {
+  const keys = preorderValues(root);
+  if (new Set(keys).size !== keys.length) return true;
+  return (function counted(node: TreeNode | null): boolean {
+    return !!node && ((node.count ?? 1) > 1 || counted(node.left) || counted(node.right));
+  })(root);
+}
+
+/**
+ * Rebuild an existing tree as another kind, keeping its keys. Only the plain
+ * BST keeps duplicates, so callers check `hasDuplicateKeys` first.
+ */
+export function convertTree(kind: BinaryTreeKind, root: TreeNode | null): TreeNode | null {
+  return carryIds(root, buildTree(kind, preorderValues(root)));
+}
+
+export function createRandomTreeOfKind(kind: BinaryTreeKind, size: number) {
+  const { insert, label } = getVariant(kind);
+  return createRandomTree(size, insert, label);
+}
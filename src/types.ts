@@ -1,40 +1,143 @@
 // ── Tree Node ──────────────────────────────────────────────────────────────
+/**
+ * Stable identity of a binary tree node. Unlike the key it survives
+ * duplicate keys and a key being overwritten (e.g. by a successor), so
+ * highlights, edges and on-screen positions follow the node itself.
+ */
+export type NodeId = number;
+
 export interface TreeNode {
+  id: NodeId;
   value: number;
   left: TreeNode | null;
   right: TreeNode | null;
+  /** Cached subtree height (AVL trees only) */
+  height?: number;
+  /** Persistent node colour (red-black trees only) */
+  color?: NodeColor;
+  /** Random heap priority (treaps only) */
+  priority?: number;
+  /** Copies of the key held by this node, when more than one ('count' duplicate policy) */
+  count?: number;
+}
+
+export type NodeColor = 'red' | 'black';
+
+/** What inserting a key that is already present does (plain BSTs) */
+export type DuplicatePolicy =
+  | 'reject'     // leave the tree unchanged
+  | 'count'      // bump a counter on the existing node
+  | 'left'       // add another node, equal keys going left
+  | 'right';     // add another node, equal keys going right
+
+// ── B-tree node (multi-key) ────────────────────────────────────────────────
+export interface BTreeNode {
+  /** Sorted keys */
+  keys: number[];
+  /** keys.length + 1 children, or none for a leaf */
+  children: BTreeNode[];
 }
 
+// ── Tree variants ──────────────────────────────────────────────────────────
+export type TreeKind =
+  | 'bst'        // plain, unbalanced binary search tree
+  | 'avl'        // height-balanced via rotations
+  | 'redblack'   // colour-balanced via recolouring and rotations
+  | 'splay'      // self-adjusting: accessed nodes are splayed to the root
+  | 'treap'      // BST on keys, max-heap on random priorities
+  | 'btree';     // multi-key nodes of configurable order
+
+/** Kinds built from binary `TreeNode`s (everything but the B-tree) */
+export type BinaryTreeKind = Exclude<TreeKind, 'btree'>;
+
 // ── Positioned node (after layout pass) ────────────────────────────────────
 export interface PositionedNode {
+  id: NodeId;
   value: number;
   x: number;
   y: number;
+  color?: NodeColor;
+  priority?: number;
+  count?: number;
+  /** Opacity while fading in/out during a transition (defaults to 1) */
+  alpha?: number;
   left: PositionedNode | null;
   right: PositionedNode | null;
 }
 
+// ── Positioned B-tree node (after layout pass) ─────────────────────────────
+export interface PositionedBTreeNode {
+  keys: number[];
+  /** Centre of the node box */
+  x: number;
+  y: number;
+  width: number;
+  children: PositionedBTreeNode[];
+}
+
 // ── Animation ──────────────────────────────────────────────────────────────
 export type HighlightType =
   | 'visiting'   // currently being compared / traversed (green)
   | 'found'      // search target found (orange)
   | 'inserting'  // node being inserted (cyan)
   | 'removing'   // node being removed (red)
-  | 'path';      // edge on the active path (yellow)
+  | 'path'       // edge on the active path (yellow)
+  | 'selected'   // node picked on the canvas (purple)
+  | 'pruned';    // subtree skipped without being visited (slate)
+
+/** Colour of a highlighted edge; operations that follow two paths at once use all three */
+export type EdgeHighlight =
+  | 'path'       // the active path (yellow)
+  | 'first'      // a branch towards the first key (cyan)
+  | 'second';    // a branch towards the second key (pink)
+
+/** A highlighted parent→child edge as node ids; the colour defaults to 'path' */
+export type HighlightEdge = [from: NodeId, to: NodeId, color?: EdgeHighlight];
 
 export interface AnimationStep {
-  /** Which node values should be highlighted this frame */
-  highlightNodes: Map<number, HighlightType>;
-  /** Which edges (parent→child value pairs) should be highlighted */
-  highlightEdges: Array<[number, number]>;
+  /** Which nodes should be highlighted this frame, by id (by key in a B-tree) */
+  highlightNodes: Map<NodeId, HighlightType>;
+  /** Which edges (parent→child id pairs; first keys in a B-tree) should be highlighted */
+  highlightEdges: HighlightEdge[];
   /** Snapshot of the tree at this step (so the canvas can redraw) */
   tree: TreeNode | null;
+  /** Snapshot of the B-tree at this step (B-tree operations only) */
+  bTree?: BTreeNode | null;
   /** Optional description shown in the UI */
   description: string;
   /** Index of the active pseudocode line (0-based) for the algorithm panel */
   codeLine?: number;
-  /** The node value currently being examined (arrow indicator) */
-  activeNode?: number;
+  /** The node currently being examined (arrow indicator) */
+  activeNode?: NodeId;
+  /** Helper data structure the algorithm is using, shown under the canvas */
+  aux?: AuxState;
+  /** Temporary links drawn dashed, as [from, to] node ids (Morris threads) */
+  threads?: Array<[NodeId, NodeId]>;
+  /** Recursive calls in progress, outermost first (recursive algorithms only) */
+  callStack?: CallFrame[];
+  /** The algorithm's local variables by name, in declaration order (watch panel) */
+  variables?: Map<string, number | null>;
+}
+
+/** One active call of a recursive algorithm */
+export interface CallFrame {
+  /** Function name as in the pseudocode, e.g. 'remove' */
+  fn: string;
+  /** Node the call was made on; null for an empty subtree */
+  node: number | null;
+  /** Pseudocode line the call is at, or will resume from once the call above it returns */
+  line: number;
+}
+
+/** Contents of an algorithm's helper structure at one step */
+export interface AuxState {
+  kind: 'queue' | 'stack' | 'array';
+  /** Node values, front (queue) or bottom (stack) first */
+  items: number[];
+  /** Values drawn highlighted (e.g. just added) */
+  marked?: number[];
+  /** Index window the algorithm is working on (arrays only) */
+  window?: { lo: number; hi: number; mid?: number };
 }
 
 // ── Operation types exposed by the sidebar ─────────────────────────────────
@@ -45,10 +148,27 @@ export type OperationType =
   | 'remove'
   | 'predecessor'
   | 'successor'
+  | 'floor'
+  | 'ceiling'
+  | 'nearest'
   | 'selectKth'
+  | 'rank'
   | 'inorder'
   | 'preorder'
-  | 'postorder';
+  | 'postorder'
+  | 'levelorder'
+  | 'rangeSearch'
+  | 'rangeCount'
+  | 'lca'
+  | 'distance'
+  | 'rebalance'
+  | 'buildBalanced';
+
+/** How a depth-first traversal is carried out */
+export type TraversalStyle =
+  | 'recursive'  // the call stack does the bookkeeping
+  | 'iterative'  // an explicit stack
+  | 'morris';    // no stack: temporary threads from in-order predecessors
 
 // ── Playback state ─────────────────────────────────────────────────────────
 export interface PlaybackState {